@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getProvider } from '@/lib/providers';
+import type { BudgetStatus } from '@/lib/budgets';
+import { formatCost } from '@/lib/usage';
+
+interface BudgetExceededDialogProps {
+  status: BudgetStatus | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const BudgetExceededDialog: React.FC<BudgetExceededDialogProps> = ({ status, onConfirm, onCancel }) => {
+  return (
+    <AlertDialog open={!!status} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        {status && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{getProvider(status.provider).label} {status.period} budget reached</AlertDialogTitle>
+              <AlertDialogDescription>
+                {formatCost(status.spent)} of the {formatCost(status.limit)} {status.period} budget has been spent.
+                It resets {status.resetsAt.toLocaleString()}. Sending anyway may add to the bill.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onConfirm}>Send anyway</AlertDialogAction>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
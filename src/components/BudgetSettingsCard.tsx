@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { listProviders, type AIProvider } from '@/lib/providers';
+import {
+  DEFAULT_WARN_PERCENT,
+  getBudgetStatuses,
+  loadBudgetSettings,
+  saveBudgetSettings,
+  type BudgetPeriod,
+  type BudgetSettings,
+  type ProviderBudget,
+} from '@/lib/budgets';
+import { formatCost, type UsageRecord } from '@/lib/usage';
+import { cn } from '@/lib/utils';
+
+interface BudgetSettingsCardProps {
+  records: UsageRecord[];
+}
+
+export const BudgetSettingsCard: React.FC<BudgetSettingsCardProps> = ({ records }) => {
+  const [settings, setSettings] = useState<BudgetSettings>(loadBudgetSettings);
+
+  const update = (next: BudgetSettings) => {
+    setSettings(next);
+    saveBudgetSettings(next);
+  };
+
+  const updateProvider = (provider: AIProvider, patch: Partial<ProviderBudget>) => {
+    const current = settings.providers[provider] ?? { warnAtPercent: DEFAULT_WARN_PERCENT };
+    update({ ...settings, providers: { ...settings.providers, [provider]: { ...current, ...patch } } });
+  };
+
+  const parseLimit = (value: string) => (value === '' ? undefined : Math.max(0, Number(value) || 0));
+
+  const renderLimit = (provider: AIProvider, period: BudgetPeriod) => {
+    const status = getBudgetStatuses(provider, records, settings).find(s => s.period === period);
+    return (
+      <div className="space-y-1">
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          value={settings.providers[provider]?.[period] ?? ''}
+          onChange={(e) => updateProvider(provider, { [period]: parseLimit(e.target.value) })}
+          placeholder="No limit"
+          className="h-8 w-28 bg-input border-white/20"
+        />
+        {status && (
+          <div className="w-28 space-y-1">
+            <Progress
+              value={Math.min(status.percent, 100)}
+              className={cn('h-1', status.level === 'blocked' && '[&>div]:bg-destructive')}
+            />
+            <p className="text-xs text-muted-foreground">{formatCost(status.spent)} spent</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Budgets</CardTitle>
+        <CardDescription>
+          USD limits per provider. A warning appears at the threshold and sending is blocked at 100% until the
+          budget resets or you confirm.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Daily</TableHead>
+              <TableHead>Monthly</TableHead>
+              <TableHead>Warn at %</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {listProviders().map((adapter) => (
+              <TableRow key={adapter.id}>
+                <TableCell className="font-medium align-top pt-5">{adapter.label}</TableCell>
+                <TableCell className="align-top">{renderLimit(adapter.id, 'daily')}</TableCell>
+                <TableCell className="align-top">{renderLimit(adapter.id, 'monthly')}</TableCell>
+                <TableCell className="align-top">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={settings.providers[adapter.id]?.warnAtPercent ?? DEFAULT_WARN_PERCENT}
+                    onChange={(e) =>
+                      updateProvider(adapter.id, {
+                        warnAtPercent: Math.min(Math.max(Number(e.target.value) || DEFAULT_WARN_PERCENT, 1), 100),
+                      })
+                    }
+                    className="h-8 w-20 bg-input border-white/20"
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div className="flex items-center gap-3">
+          <label htmlFor="monthly-reset-day" className="text-sm font-medium text-foreground">
+            Monthly budgets reset on day
+          </label>
+          <Input
+            id="monthly-reset-day"
+            type="number"
+            min={1}
+            max={28}
+            value={settings.monthlyResetDay}
+            onChange={(e) => update({ ...settings, monthlyResetDay: Math.min(Math.max(Number(e.target.value) || 1, 1), 28) })}
+            className="h-8 w-20 bg-input border-white/20"
+          />
+          <span className="text-xs text-muted-foreground">Daily budgets reset at local midnight.</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
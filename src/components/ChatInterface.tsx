@@ -1,26 +1,93 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Key, Settings } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Send, Bot, Key, Settings, Square, BarChart3, Columns3, ImagePlus, AlertTriangle, MonitorUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  abortError,
+  getProvider,
+  isAbortError,
+  isProvider,
+  listProviders,
+  sendChat,
+  ProviderError,
+  toProviderError,
+  type AIProvider,
+  type ImagePart,
+  type ProviderConnection,
+  type ToolCall,
+} from '@/lib/providers';
+import {
+  deleteEndpoint,
+  loadActiveEndpoint,
+  loadEndpoints,
+  setActiveEndpoint,
+  upsertEndpoint,
+  type CustomEndpoint,
+} from '@/lib/endpoints';
+import { CustomEndpointSetup } from '@/components/CustomEndpointSetup';
+import { LocalModelSetup } from '@/components/LocalModelSetup';
+import { ModelPicker } from '@/components/ModelPicker';
+import { GenerationSettings } from '@/components/GenerationSettings';
+import { ReplySettings } from '@/components/ReplySettings';
+import { useGenerationParams } from '@/hooks/use-generation-params';
+import { PersonaMenu } from '@/components/PersonaMenu';
+import { RetryCountdown } from '@/components/RetryCountdown';
+import { ErrorMessageCard } from '@/components/ErrorMessageCard';
+import { MessageBubble } from '@/components/MessageBubble';
+import { estimateTokens, trimHistory } from '@/lib/tokens';
+import { formatCost, loadUsageLog, recordUsage, toMessageUsage } from '@/lib/usage';
+import { checkBudget, loadBudgetSettings, type BudgetStatus } from '@/lib/budgets';
+import { BudgetExceededDialog } from '@/components/BudgetExceededDialog';
+import { CompareView } from '@/components/CompareView';
+import { MockProviderSettings } from '@/components/MockProviderSettings';
+import { useComparison, type ComparisonColumn } from '@/hooks/use-comparison';
+import { loadSavedConnection } from '@/lib/connections';
+import type { CompareTarget } from '@/lib/compare';
+import { toast } from '@/hooks/use-toast';
+import { ConversationSummaryPanel } from '@/components/ConversationSummaryPanel';
+import {
+  applySummary,
+  buildSummaryMessages,
+  extendSummary,
+  loadSummarySettings,
+  saveSummarySettings,
+  selectMessagesToSummarize,
+  SUMMARY_SYSTEM_PROMPT,
+  type ConversationSummary,
+  type SummarySettings,
+} from '@/lib/summary';
+import { createMessage, toChatMessages, type Message, type ToolInvocation } from '@/lib/chat';
+import { executeToolCall, getTool, listEnabledTools, loadToolSettings, toToolSpecs } from '@/lib/tools';
+import { ToolMenu } from '@/components/ToolMenu';
+import { ToolCallCard } from '@/components/ToolCallCard';
+import {
+  fallbackTargets,
+  loadFallbackSettings,
+  saveFallbackSettings,
+  type FallbackSettings,
+} from '@/lib/fallback';
+import {
+  activeOutputSchema,
+  loadStructuredOutputSettings,
+  saveStructuredOutputSettings,
+  structuredCorrectionPrompt,
+  validateStructuredReply,
+  type StructuredOutputSettings,
+} from '@/lib/structured';
+import { StructuredOutputMenu } from '@/components/StructuredOutputMenu';
+import { ImageThumbnails } from '@/components/ImageThumbnails';
+import { isImageFile, MAX_IMAGES_PER_MESSAGE, prepareImage } from '@/lib/images';
 import { cn } from '@/lib/utils';
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-}
-
-type AIProvider = 'openai' | 'gemini';
-
-interface ProviderConfig {
-  name: string;
-  apiUrl: string;
-  defaultModel: string;
-  keyPrefix: string;
-}
+import { supportsVision } from '@/lib/models';
+import { captureFrame, isCaptureCancelled } from '@/lib/screen-capture';
+import { ScreenCaptureDialog } from '@/components/ScreenCaptureDialog';
+import { loadRetryPolicy, saveRetryPolicy, type RetryInfo, type RetryPolicy } from '@/lib/retry';
+import { applyReplyFeatures, runToolRounds, streamReply, type PreparedRequest } from '@/lib/reply';
+import { PersonaManagerDialog } from '@/components/PersonaManagerDialog';
+import { loadActivePersonaId, loadPersonas, setActivePersonaId, type Persona } from '@/lib/personas';
 
 interface ChatInterfaceProps {
   opacity: number;
@@ -29,40 +96,89 @@ interface ChatInterfaceProps {
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<ImagePart[]>([]);
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
+  const [capturedFrame, setCapturedFrame] = useState<HTMLCanvasElement | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [apiKey, setApiKey] = useState<string>('');
   const [tempApiKey, setTempApiKey] = useState<string>('');
   const [showApiKeySetup, setShowApiKeySetup] = useState(false);
   const [provider, setProvider] = useState<AIProvider>('openai');
+  const [endpoints, setEndpoints] = useState<CustomEndpoint[]>([]);
+  const [endpoint, setEndpoint] = useState<CustomEndpoint | null>(null);
+  const [selectedModel, setSelectedModel] = useState<string>('');
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [activePersonaId, setActivePersonaIdState] = useState<string | null>(loadActivePersonaId);
+  const generation = useGenerationParams(personas.find(persona => persona.id === activePersonaId)?.params);
+  const [showPersonaManager, setShowPersonaManager] = useState(false);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(loadRetryPolicy);
+  const [retryStatus, setRetryStatus] = useState<(RetryInfo & { retryAt: number }) | null>(null);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [summarySettings, setSummarySettings] = useState<SummarySettings>(loadSummarySettings);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [fallbackSettings, setFallbackSettings] = useState<FallbackSettings>(loadFallbackSettings);
+  const [structuredOutput, setStructuredOutput] = useState<StructuredOutputSettings>(loadStructuredOutputSettings);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [budgetPrompt, setBudgetPrompt] = useState<{ status: BudgetStatus; send: () => Promise<void> } | null>(null);
+  const warnedBudgetsRef = useRef(new Set<string>());
+  const approvalsRef = useRef(new Map<string, (approved: boolean) => void>());
+  const [compareMode, setCompareMode] = useState(false);
+  const comparison = useComparison();
 
-  const providers: Record<AIProvider, ProviderConfig> = {
-    openai: {
-      name: 'OpenAI',
-      apiUrl: 'https://api.openai.com/v1/chat/completions',
-      defaultModel: 'gpt-3.5-turbo',
-      keyPrefix: 'sk-'
-    },
-    gemini: {
-      name: 'Google Gemini',
-      apiUrl: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent',
-      defaultModel: 'gemini-1.5-flash-latest',
-      keyPrefix: 'AI'
-    }
-  };
+  const adapter = getProvider(provider);
+  const connection: ProviderConnection = adapter.customEndpoints
+    ? { apiKey: endpoint?.apiKey ?? '', baseUrl: endpoint?.baseUrl }
+    : { apiKey };
+  const model = adapter.customEndpoints ? endpoint?.model ?? '' : selectedModel || adapter.defaultModel;
+  const isConfigured = adapter.customEndpoints ? !!endpoint : !adapter.requiresApiKey || !!apiKey;
+  const assistantName = adapter.customEndpoints && endpoint ? endpoint.name : adapter.name;
+  const activePersona = personas.find(persona => persona.id === activePersonaId) ?? null;
+  // Preview of what the next request would send, including the draft being typed
+  const nextContext = applySummary(
+    input.trim() || attachments.length > 0
+      ? [...messages, createMessage(input.trim(), 'user', { images: attachments })]
+      : messages,
+    summary,
+    activePersona?.systemPrompt
+  );
+  const nextRequest = trimHistory(nextContext.messages, {
+    provider,
+    model,
+    system: nextContext.system,
+    maxTokens: generation.params.maxTokens,
+  });
+  // Models that would receive the attached images without being able to see them
+  const blindModels = attachments.length === 0
+    ? []
+    : (compareMode ? comparison.targets : [{ provider, model }])
+      .filter(target => !supportsVision(target.provider, target.model))
+      .map(target => target.model || getProvider(target.provider).name);
 
   // Load API key and provider from localStorage on mount
   useEffect(() => {
-    const savedProvider = localStorage.getItem('ai-provider') as AIProvider;
-    if (savedProvider && providers[savedProvider]) {
-      setProvider(savedProvider);
-    }
+    const savedProvider = localStorage.getItem('ai-provider');
+    const initialProvider: AIProvider = isProvider(savedProvider) ? savedProvider : 'openai';
+    setProvider(initialProvider);
     
-    const savedApiKey = localStorage.getItem(`${savedProvider || 'openai'}-api-key`);
+    const savedEndpoint = loadActiveEndpoint();
+    setEndpoints(loadEndpoints());
+    setEndpoint(savedEndpoint);
+
+    setSelectedModel(localStorage.getItem(`${initialProvider}-model`) || '');
+
+    const savedApiKey = localStorage.getItem(`${initialProvider}-api-key`);
     if (savedApiKey) {
       setApiKey(savedApiKey);
-    } else {
+    }
+
+    const initialAdapter = getProvider(initialProvider);
+    const needsSetup = initialAdapter.customEndpoints
+      ? !savedEndpoint
+      : initialAdapter.requiresApiKey && !savedApiKey;
+    if (needsSetup) {
       setShowApiKeySetup(true);
     }
   }, []);
@@ -78,13 +194,65 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
     setTempApiKey('');
   };
 
-  const handleChangeApiKey = () => {
+  const handleEndpointSave = (saved: CustomEndpoint) => {
+    setEndpoints(upsertEndpoint(saved));
+    setActiveEndpoint(saved.id);
+    localStorage.setItem('ai-provider', provider);
+    setEndpoint(saved);
+    setShowApiKeySetup(false);
+  };
+
+  const handleEndpointDelete = (id: string) => {
+    setEndpoints(deleteEndpoint(id));
+    if (endpoint?.id === id) {
+      setActiveEndpoint(null);
+      setEndpoint(null);
+    }
+  };
+
+  const handleLocalModelSave = (savedModel: string) => {
+    localStorage.setItem(`${provider}-model`, savedModel);
+    localStorage.setItem('ai-provider', provider);
+    setSelectedModel(savedModel);
+    setShowApiKeySetup(false);
+  };
+
+  const handleModelChange = (newModel: string) => {
+    if (adapter.customEndpoints) {
+      if (!endpoint) return;
+      const updated = { ...endpoint, model: newModel };
+      setEndpoints(upsertEndpoint(updated));
+      setEndpoint(updated);
+    } else {
+      localStorage.setItem(`${provider}-model`, newModel);
+      setSelectedModel(newModel);
+    }
+  };
+
+  const handlePersonaSelect = (id: string | null) => {
+    setActivePersonaId(id);
+    setActivePersonaIdState(id);
+
+    const persona = personas.find(candidate => candidate.id === id);
+    if (persona?.model && persona.provider === provider) {
+      handleModelChange(persona.model);
+    }
+    generation.swapOverrides(activePersona?.params ?? {}, persona?.params ?? {});
+  };
+
+  // Opens setup for the given provider, e.g. the one behind a failed reply, or else the current one.
+  const handleChangeApiKey = (target: AIProvider = provider) => {
+    if (target !== provider) {
+      handleProviderChange(target);
+    } else {
+      setTempApiKey(apiKey);
+    }
     setShowApiKeySetup(true);
-    setTempApiKey(apiKey);
   };
 
   const handleProviderChange = (newProvider: AIProvider) => {
     setProvider(newProvider);
+    setSelectedModel(localStorage.getItem(`${newProvider}-model`) || '');
     const savedApiKey = localStorage.getItem(`${newProvider}-api-key`);
     if (savedApiKey) {
       setApiKey(savedApiKey);
@@ -95,109 +263,473 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
     }
   };
 
-  const addMessage = (content: string, role: 'user' | 'assistant') => {
-    const newMessage: Message = {
-      id: Date.now().toString(),
-      content,
-      role,
-      timestamp: new Date(),
-    };
+  const addMessage = (content: string, role: 'user' | 'assistant', extra: Partial<Message> = {}) => {
+    const newMessage = createMessage(content, role, extra);
     setMessages(prev => [...prev, newMessage]);
+    return newMessage.id;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading || !apiKey) return;
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...patch } : msg)));
+  };
 
-    const userMessage = input.trim();
-    setInput('');
-    addMessage(userMessage, 'user');
+  // Applies the summary, persona prompt and context-window trimming for one provider and model.
+  const buildRequest = (
+    history: Message[],
+    activeSummary: ConversationSummary | null,
+    target: { provider: AIProvider; model: string; connection: ProviderConnection }
+  ): PreparedRequest => {
+    const applied = applySummary(history, activeSummary, activePersona?.systemPrompt || undefined);
+    const { messages: context, promptTokens } = trimHistory(applied.messages, {
+      provider: target.provider,
+      model: target.model,
+      system: applied.system,
+      maxTokens: generation.params.maxTokens,
+    });
+    return {
+      request: {
+        ...target.connection,
+        model: target.model,
+        system: applied.system,
+        messages: toChatMessages(context),
+        ...generation.params,
+      },
+      promptTokens,
+    };
+  };
+
+  // Resolves once the user allows or denies the sensitive tool call shown in the given card.
+  const waitForApproval = (id: string, signal: AbortSignal) =>
+    new Promise<boolean>((resolve, reject) => {
+      const onAbort = () => {
+        approvalsRef.current.delete(id);
+        reject(abortError());
+      };
+      approvalsRef.current.set(id, (approved) => {
+        // The signal lives for the whole reply, so a settled approval must not keep its listener
+        signal.removeEventListener('abort', onAbort);
+        resolve(approved);
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+  const handleToolDecision = (id: string, approved: boolean) => {
+    approvalsRef.current.get(id)?.(approved);
+    approvalsRef.current.delete(id);
+  };
+
+  // Runs the requested tools in order, each shown as a card, and returns their result messages.
+  const runToolCalls = async (calls: ToolCall[], signal: AbortSignal): Promise<Message[]> => {
+    const results: Message[] = [];
+    const { disabled } = loadToolSettings();
+    for (const call of calls) {
+      const sensitive = !!getTool(call.name)?.sensitive;
+      const invocation: ToolInvocation = {
+        callId: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        status: sensitive ? 'awaiting-approval' : 'running',
+      };
+      const id = addMessage('', 'assistant', { kind: 'tool', tool: invocation });
+      const settle = (status: ToolInvocation['status'], content: string) => {
+        const patch = { content, tool: { ...invocation, status } };
+        updateMessage(id, patch);
+        results.push(createMessage(content, 'assistant', { ...patch, id, kind: 'tool' }));
+      };
+
+      // Earlier turns may name a tool that has since been switched off
+      if (disabled.includes(call.name)) {
+        settle('error', JSON.stringify({ error: 'The user has turned this tool off.' }));
+        continue;
+      }
+
+      if (sensitive) {
+        if (!await waitForApproval(id, signal)) {
+          settle('denied', JSON.stringify({ error: 'The user denied this tool call.' }));
+          continue;
+        }
+        updateMessage(id, { tool: { ...invocation, status: 'running' } });
+      }
+
+      const outcome = await executeToolCall(call, { signal });
+      settle(outcome.status, outcome.content);
+    }
+    return results;
+  };
+
+  // Folds older turns into the running memo once they pass the threshold; returns the summary to send with.
+  const refreshSummary = async (history: Message[], signal: AbortSignal): Promise<ConversationSummary | null> => {
+    const toSummarize = selectMessagesToSummarize(history, summary, summarySettings, provider);
+    if (toSummarize.length === 0) return summary;
+
+    setIsSummarizing(true);
+    try {
+      const summaryMessages = buildSummaryMessages(summary, toSummarize);
+      const startedAt = Date.now();
+      const { text: memo, usage } = await sendChat(adapter, {
+        ...connection,
+        model,
+        system: SUMMARY_SYSTEM_PROMPT,
+        messages: summaryMessages,
+        ...generation.params,
+        temperature: 0.2,
+      }, { signal });
+      // Summaries are billed like any other call, so they count toward the usage log
+      recordUsage(toMessageUsage(usage, {
+        provider,
+        model,
+        latencyMs: Date.now() - startedAt,
+        promptTokens: estimateTokens(SUMMARY_SYSTEM_PROMPT + summaryMessages.map(msg => msg.content).join('\n'), provider),
+        completionText: memo,
+      }));
+      if (!memo) return summary;
+      const next = extendSummary(summary, memo, toSummarize);
+      setSummary(next);
+      return next;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Without a fresh memo the request still goes out with trimmed raw turns
+      console.warn('Conversation summary failed:', error);
+      return summary;
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Requests a reply to the given transcript, which must end with the user's turn.
+  const runCompletion = async (history: Message[]) => {
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let streamingId: string | null = null;
+    // Moves along the fallback chain as providers fail
+    let answeringProvider = provider;
+
     try {
-      let response;
-      const config = providers[provider];
-
-      if (provider === 'openai') {
-        response = await fetch(config.apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
+      const activeSummary = await refreshSummary(history, controller.signal);
+
+      const records = loadUsageLog();
+      const budgets = loadBudgetSettings();
+      // A fallback must not silently spend past a budget the user would have been asked about
+      const fallbacks = fallbackTargets(provider, fallbackSettings)
+        .filter(target => checkBudget(target.provider, records, budgets)?.level !== 'blocked');
+      const targets = [{ provider, model, connection }, ...fallbacks];
+      const features = {
+        tools: toToolSpecs(listEnabledTools(loadToolSettings())),
+        outputSchema: activeOutputSchema(structuredOutput),
+      };
+
+      // Streams one reply into a live bubble and returns it once complete.
+      const reply = async (transcript: Message[], toolLimitReached = false): Promise<Message> => {
+        streamingId = null;
+        const { result, usage, failedAttempts } = await streamReply({
+          targets,
+          prepare: (target) => {
+            const { request, promptTokens } = buildRequest(transcript, activeSummary, target);
+            return { request: applyReplyFeatures(request, target.provider, { ...features, toolLimitReached }), promptTokens };
           },
-          body: JSON.stringify({
-            model: config.defaultModel,
-            messages: [
-              ...messages.map(msg => ({
-                role: msg.role,
-                content: msg.content
-              })),
-              { role: 'user', content: userMessage }
-            ],
-            max_tokens: 1000,
-            temperature: 0.7,
-          }),
-        });
-      } else if (provider === 'gemini') {
-        response = await fetch(`${config.apiUrl}?key=${apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+          retryPolicy,
+          signal: controller.signal,
+          onAttempt: (target) => {
+            answeringProvider = target.provider;
+            // A countdown left over from the provider that failed would describe the wrong request
+            setRetryStatus(null);
           },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [{ text: userMessage }]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 1000,
+          onText: (text) => {
+            setRetryStatus(null);
+            // The first delta replaces the typing indicator with a live bubble
+            if (streamingId) {
+              updateMessage(streamingId, { content: text });
+            } else {
+              streamingId = addMessage(text, 'assistant', { isStreaming: true });
             }
-          }),
+          },
+          onRetry: (info) => setRetryStatus({ ...info, retryAt: Date.now() + info.delayMs }),
         });
-      }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (provider === 'openai') {
-          if (response.status === 429 && errorData.error?.code === 'insufficient_quota') {
-            throw new Error('Your OpenAI account has exceeded its quota. Please check your billing details at platform.openai.com');
-          } else if (response.status === 401) {
-            throw new Error('Invalid OpenAI API key. Please check your API key.');
-          } else if (response.status === 429) {
-            throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-          } else {
-            throw new Error(`OpenAI API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-          }
-        } else if (provider === 'gemini') {
-          if (response.status === 401 || response.status === 403) {
-            throw new Error('Invalid Gemini API key. Please check your API key.');
-          } else if (response.status === 429) {
-            throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-          } else {
-            throw new Error(`Gemini API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-          }
+        // A reply that only calls tools legitimately has no text
+        const finalContent = result.text || (result.toolCalls ? '' : 'Sorry, I could not generate a response.');
+        const extra = {
+          usage,
+          failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined,
+          toolCalls: result.toolCalls,
+        };
+        if (streamingId) {
+          updateMessage(streamingId, { content: finalContent, isStreaming: false, timestamp: new Date(), ...extra });
+          return createMessage(finalContent, 'assistant', { ...extra, id: streamingId });
         }
-      }
+        const message = createMessage(finalContent, 'assistant', extra);
+        setMessages(prev => [...prev, message]);
+        return message;
+      };
 
-      const data = await response.json();
-      let assistantMessage = '';
+      const toolRounds = await runToolRounds(history, {
+        reply,
+        runTools: (calls) => runToolCalls(calls, controller.signal),
+      });
+      const { transcript } = toolRounds;
+      let answer = toolRounds.reply;
+      const { outputSchema } = features;
 
-      if (provider === 'openai') {
-        assistantMessage = data.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
-      } else if (provider === 'gemini') {
-        assistantMessage = data.candidates[0]?.content?.parts[0]?.text || 'Sorry, I could not generate a response.';
+      // A reply that does not match the schema gets one corrected attempt
+      if (outputSchema && !answer.toolCalls) {
+        let validation = validateStructuredReply(answer.content, outputSchema);
+        let retried = false;
+        if (validation.error) {
+          const rejected = answer;
+          updateMessage(rejected.id, { structured: { schemaName: outputSchema.name, error: validation.error } });
+          answer = await reply([
+            ...transcript,
+            rejected,
+            createMessage(structuredCorrectionPrompt(validation.error), 'user'),
+          ]);
+          // The corrected attempt takes the rejected reply's place
+          setMessages(prev => prev.filter(msg => msg.id !== rejected.id));
+          validation = validateStructuredReply(answer.content, outputSchema);
+          retried = true;
+        }
+        updateMessage(answer.id, {
+          structured: {
+            schemaName: outputSchema.name,
+            retried,
+            ...validation,
+          },
+        });
       }
-      
-      addMessage(assistantMessage, 'assistant');
     } catch (error) {
-      console.error(`${provider.toUpperCase()} API Error:`, error);
-      addMessage(`Error: ${error.message}`, 'assistant');
+      if (isAbortError(error)) {
+        if (streamingId) {
+          updateMessage(streamingId, { isStreaming: false, stopped: true, timestamp: new Date() });
+        }
+        return;
+      }
+
+      console.error(`${answeringProvider.toUpperCase()} API Error:`, error);
+      if (streamingId) {
+        updateMessage(streamingId, { isStreaming: false, stopped: true });
+      }
+      const providerError = toProviderError(error);
+      addMessage(providerError.message, 'assistant', {
+        kind: 'error',
+        error: { category: providerError.category, provider: answeringProvider },
+      });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      // Calls left pending by a stop or failure will never run
+      setMessages(prev => prev.map(msg =>
+        msg.tool?.status === 'awaiting-approval' || msg.tool?.status === 'running'
+          ? { ...msg, tool: { ...msg.tool, status: 'cancelled' } }
+          : msg
+      ));
       setIsLoading(false);
+      setRetryStatus(null);
+      inputRef.current?.focus();
+    }
+  };
+
+  // Runs `send` if the providers' spend budgets allow it; past a hard limit the user must confirm first.
+  const withinBudget = (providers: AIProvider[], send: () => Promise<void>) => {
+    const records = loadUsageLog();
+    const settings = loadBudgetSettings();
+    const statuses = providers.map(id => checkBudget(id, records, settings)).filter(Boolean);
+    const blocked = statuses.find(status => status.level === 'blocked');
+    if (blocked) {
+      setBudgetPrompt({ status: blocked, send });
+      return;
+    }
+    for (const status of statuses) {
+      // Warn once per budget period rather than on every message
+      const key = `${status.provider}:${status.period}:${status.resetsAt.getTime()}`;
+      if (warnedBudgetsRef.current.has(key)) continue;
+      warnedBudgetsRef.current.add(key);
+      toast({
+        title: `${Math.floor(status.percent)}% of ${status.period} budget used`,
+        description: `${formatCost(status.spent)} of ${formatCost(status.limit)} spent on ${getProvider(status.provider).label}.`,
+      });
+    }
+    void send();
+  };
+
+  const handleBudgetOverride = () => {
+    const send = budgetPrompt?.send;
+    setBudgetPrompt(null);
+    void send?.();
+  };
+
+  // Comparison columns see the same thread as the main chat, without refreshing its summary.
+  const prepareComparison = (history: Message[]) => (target: CompareTarget): PreparedRequest => {
+    const saved = loadSavedConnection(target.provider);
+    if (!saved.configured) {
+      throw new ProviderError(`${getProvider(target.provider).name} is not set up yet.`, { category: 'auth' });
+    }
+    return buildRequest(history, summary, {
+      provider: target.provider,
+      model: target.model || saved.model,
+      connection: saved.connection,
+    });
+  };
+
+  // Downscales and attaches pasted, dropped or picked images, up to the per-message limit.
+  const attachImages = async (files: File[]) => {
+    const images = files.filter(isImageFile).slice(0, MAX_IMAGES_PER_MESSAGE - attachments.length);
+    if (images.length < files.length) {
+      toast({
+        title: 'Some files were not attached',
+        description: `Only images can be attached, up to ${MAX_IMAGES_PER_MESSAGE} per message.`,
+      });
+    }
+    for (const file of images) {
+      try {
+        const image = await prepareImage(file);
+        setAttachments(prev => (prev.length < MAX_IMAGES_PER_MESSAGE ? [...prev, image] : prev));
+      } catch (error) {
+        toast({
+          title: `Could not attach ${file.name || 'the image'}`,
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      }
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files).filter(isImageFile);
+    // Text pastes go through untouched
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachImages(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingImage(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingImage(false);
+    attachImages(Array.from(e.dataTransfer.files));
+  };
+
+  // Grabs one frame of a shared screen or window for cropping and redacting before it is attached.
+  const handleCaptureScreen = async () => {
+    try {
+      setCapturedFrame(await captureFrame());
+    } catch (error) {
+      if (isCaptureCancelled(error)) return;
+      toast({
+        title: 'Could not capture the screen',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAttachCapture = (image: ImagePart) => {
+    setAttachments(prev => (prev.length < MAX_IMAGES_PER_MESSAGE ? [...prev, image] : prev));
+    setCapturedFrame(null);
+    inputRef.current?.focus();
+  };
+
+  // Takes the draft and its attachments out of the composer as a user message.
+  const takeDraft = () => {
+    const userMessage = createMessage(input.trim(), 'user', attachments.length > 0 ? { images: attachments } : {});
+    setInput('');
+    setAttachments([]);
+    return userMessage;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!input.trim() && attachments.length === 0) || isLoading || comparison.isRunning) return;
+
+    if (compareMode) {
+      withinBudget(comparison.targets.map(target => target.provider), async () => {
+        const userMessage = takeDraft();
+        await comparison.run(userMessage, prepareComparison([...messages, userMessage]));
+      });
+      return;
+    }
+
+    if (!isConfigured) return;
+    withinBudget([provider], async () => {
+      const userMessage = takeDraft();
+      setMessages(prev => [...prev, userMessage]);
+      await runCompletion([...messages, userMessage]);
+    });
+  };
+
+  // Drops the error card and asks again with the transcript that preceded it.
+  const handleRetryError = (errorId: string) => {
+    if (isLoading || !isConfigured) return;
+
+    withinBudget([provider], async () => {
+      const index = messages.findIndex(msg => msg.id === errorId);
+      // A reply cut off by the failure would go out as an unfinished assistant turn, so it is dropped too
+      const end = messages[index - 1]?.role === 'assistant' && messages[index - 1].stopped ? index - 1 : index;
+      const history = messages.slice(0, end);
+      setMessages(history);
+      await runCompletion(history);
+    });
+  };
+
+  const handleSwitchProvider = (newProvider: AIProvider) => {
+    handleProviderChange(newProvider);
+
+    const next = getProvider(newProvider);
+    const configured = next.customEndpoints
+      ? !!endpoint
+      : !next.requiresApiKey || !!localStorage.getItem(`${newProvider}-api-key`);
+    if (configured) {
+      localStorage.setItem('ai-provider', newProvider);
+    } else {
+      setShowApiKeySetup(true);
+    }
+  };
+
+  const handleSummarySettingsChange = (settings: SummarySettings) => {
+    saveSummarySettings(settings);
+    setSummarySettings(settings);
+  };
+
+  const handleFallbackSettingsChange = (settings: FallbackSettings) => {
+    saveFallbackSettings(settings);
+    setFallbackSettings(settings);
+  };
+
+  const handleStructuredOutputChange = (settings: StructuredOutputSettings) => {
+    saveStructuredOutputSettings(settings);
+    setStructuredOutput(settings);
+  };
+
+  const handleRetryPolicyChange = (policy: RetryPolicy) => {
+    saveRetryPolicy(policy);
+    setRetryPolicy(policy);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    comparison.stop();
+  };
+
+  // Moves the prompt and the chosen answer into the thread and continues with that provider.
+  const handleAdoptComparison = (column: ComparisonColumn) => {
+    const prompt = comparison.prompt;
+    if (!prompt) return;
+
+    setMessages(prev => [...prev, prompt, createMessage(column.text, 'assistant', { usage: column.usage })]);
+    comparison.clear();
+    setCompareMode(false);
+
+    const chosen = getProvider(column.target.provider);
+    if (!chosen.customEndpoints && column.model) {
+      localStorage.setItem(`${chosen.id}-model`, column.model);
     }
+    handleSwitchProvider(chosen.id);
   };
 
   useEffect(() => {
@@ -211,6 +743,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
     inputRef.current?.focus();
   }, []);
 
+  // Cancel any in-flight request when the chat unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Show API key setup if no API key is stored
   if (showApiKeySetup) {
     return (
@@ -225,7 +760,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
             Choose your AI provider and enter your API key to start chatting. Your key will be stored locally and never shared.
           </p>
           
-          <form onSubmit={handleApiKeySubmit} className="w-full max-w-md space-y-4">
+          <div className="w-full max-w-md space-y-4">
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">AI Provider</label>
               <Select value={provider} onValueChange={handleProviderChange}>
@@ -233,56 +768,78 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="openai">OpenAI (GPT)</SelectItem>
-                  <SelectItem value="gemini">Google Gemini</SelectItem>
+                  {listProviders().map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-foreground">API Key</label>
-              <Input
-                type="password"
-                value={tempApiKey}
-                onChange={(e) => setTempApiKey(e.target.value)}
-                placeholder={providers[provider].keyPrefix + "..."}
-                className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
-                autoFocus
+            {adapter.customEndpoints ? (
+              <CustomEndpointSetup
+                key={endpoint?.id ?? 'new'}
+                endpoints={endpoints}
+                activeId={endpoint?.id ?? null}
+                onSave={handleEndpointSave}
+                onDelete={handleEndpointDelete}
+              />
+            ) : !adapter.requiresApiKey ? (
+              <LocalModelSetup
+                key={adapter.id}
+                adapter={adapter}
+                connection={connection}
+                model={model}
+                onSave={handleLocalModelSave}
               />
-            </div>
-            
-            <Button
-              type="submit"
-              disabled={!tempApiKey.trim()}
-              className="w-full bg-gradient-primary hover:scale-105 transition-transform"
-            >
-              <Key className="w-4 h-4 mr-2" />
-              Save API Key
-            </Button>
-          </form>
-          
-          <p className="text-xs text-muted-foreground mt-6 max-w-md">
-            Get your API key from{' '}
-            {provider === 'openai' ? (
-              <a 
-                href="https://platform.openai.com/api-keys" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="text-primary hover:underline"
-              >
-                platform.openai.com
-              </a>
             ) : (
+              <form onSubmit={handleApiKeySubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">API Key</label>
+                  <Input
+                    type="password"
+                    value={tempApiKey}
+                    onChange={(e) => setTempApiKey(e.target.value)}
+                    placeholder={adapter.keyPrefix + "..."}
+                    className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+                    autoFocus
+                  />
+                  {tempApiKey.trim() && !adapter.validateKey(tempApiKey) && (
+                    <p className="text-xs text-muted-foreground text-left">
+                      This doesn't look like a {adapter.name} key. {adapter.name} keys usually start with "{adapter.keyPrefix}".
+                    </p>
+                  )}
+                </div>
+                
+                <Button
+                  type="submit"
+                  disabled={!tempApiKey.trim()}
+                  className="w-full bg-gradient-primary hover:scale-105 transition-transform"
+                >
+                  <Key className="w-4 h-4 mr-2" />
+                  Save API Key
+                </Button>
+              </form>
+            )}
+          </div>
+          
+          {/* Built-in providers such as the mock have nothing to sign up for */}
+          {adapter.keyHelpUrl && (
+            <p className="text-xs text-muted-foreground mt-6 max-w-md">
+              {adapter.customEndpoints
+                ? 'Works with llama.cpp, vLLM, LM Studio, LocalAI and other servers following'
+                : adapter.requiresApiKey
+                  ? 'Get your API key from'
+                  : `Don't have ${adapter.name} yet? Download it from`}{' '}
               <a 
-                href="https://aistudio.google.com/app/apikey" 
+                href={adapter.keyHelpUrl} 
                 target="_blank" 
                 rel="noopener noreferrer"
                 className="text-primary hover:underline"
               >
-                Google AI Studio
+                {adapter.keyHelpLabel}
               </a>
-            )}
-          </p>
+            </p>
+          )}
         </div>
       </div>
     );
@@ -297,108 +854,258 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ opacity }) => {
       <div className="flex items-center justify-between p-4 border-b border-white/10 bg-card/50">
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center animate-pulse-glow">
-            <Bot className="w-4 h-4 text-primary-foreground" />
+            {activePersona ? (
+              <span className="text-sm leading-none">{activePersona.icon}</span>
+            ) : (
+              <Bot className="w-4 h-4 text-primary-foreground" />
+            )}
           </div>
           <div>
-            <h1 className="font-semibold text-foreground">{providers[provider].name} Assistant</h1>
-            <p className="text-xs text-muted-foreground">Ready for screen sharing overlay</p>
+            <h1 className="font-semibold text-foreground">
+              {activePersona ? `${activePersona.name} · ${assistantName}` : `${assistantName} Assistant`}
+            </h1>
+            <ModelPicker
+              key={provider}
+              adapter={adapter}
+              connection={connection}
+              model={model}
+              onModelChange={handleModelChange}
+            />
           </div>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleChangeApiKey}
-          className="text-muted-foreground hover:text-foreground"
-        >
-          <Settings className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCompareMode(!compareMode)}
+            disabled={isLoading || comparison.isRunning}
+            className={compareMode ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
+            title={compareMode ? 'Back to chat' : 'Compare providers side by side'}
+            aria-pressed={compareMode}
+          >
+            <Columns3 className="w-4 h-4" />
+          </Button>
+          <PersonaMenu
+            personas={personas}
+            activePersona={activePersona}
+            onSelect={handlePersonaSelect}
+            onManage={() => setShowPersonaManager(true)}
+          />
+          {provider === 'mock' && <MockProviderSettings />}
+          <ToolMenu />
+          <StructuredOutputMenu settings={structuredOutput} onChange={handleStructuredOutputChange} />
+          <GenerationSettings generation={generation} provider={provider} />
+          <ReplySettings
+            retryPolicy={retryPolicy}
+            onRetryPolicyChange={handleRetryPolicyChange}
+            summarySettings={summarySettings}
+            onSummarySettingsChange={handleSummarySettingsChange}
+            fallbackSettings={fallbackSettings}
+            onFallbackSettingsChange={handleFallbackSettingsChange}
+          />
+          <Button
+            asChild
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <Link to="/usage" title="Usage and cost" aria-label="Usage and cost">
+              <BarChart3 className="w-4 h-4" />
+            </Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleChangeApiKey()}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <Settings className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
+      <PersonaManagerDialog
+        open={showPersonaManager}
+        onOpenChange={setShowPersonaManager}
+        personas={personas}
+        onPersonasChange={setPersonas}
+        provider={provider}
+      />
+
+      <BudgetExceededDialog
+        status={budgetPrompt?.status ?? null}
+        onConfirm={handleBudgetOverride}
+        onCancel={() => setBudgetPrompt(null)}
+      />
+
       {/* Messages */}
-      <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
-        <div className="space-y-4">
-          {messages.length === 0 && (
-            <div className="text-center py-8">
-              <Bot className="w-12 h-12 mx-auto mb-4 text-primary animate-float" />
-              <h3 className="text-lg font-medium text-foreground mb-2">Ready to assist</h3>
-              <p className="text-muted-foreground text-sm">Type your prompt below to get started</p>
-            </div>
-          )}
-          
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={cn(
-                "flex gap-3 animate-slide-up",
-                message.role === 'user' ? 'justify-end' : 'justify-start'
-              )}
-            >
-              {message.role === 'assistant' && (
-                <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-4 h-4 text-primary-foreground" />
-                </div>
-              )}
-              
-              <div
-                className={cn(
-                  "max-w-[80%] p-3 rounded-lg",
-                  message.role === 'user'
-                    ? 'bg-primary text-primary-foreground rounded-br-none'
-                    : 'bg-secondary text-secondary-foreground rounded-bl-none'
-                )}
-              >
-                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                <span className="text-xs opacity-70 mt-1 block">
-                  {message.timestamp.toLocaleTimeString()}
-                </span>
+      {compareMode ? (
+        <CompareView comparison={comparison} onAdopt={handleAdoptComparison} />
+      ) : (
+        <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
+          <div className="space-y-4">
+            {messages.length === 0 && (
+              <div className="text-center py-8">
+                <Bot className="w-12 h-12 mx-auto mb-4 text-primary animate-float" />
+                <h3 className="text-lg font-medium text-foreground mb-2">Ready to assist</h3>
+                <p className="text-muted-foreground text-sm">Type your prompt below to get started</p>
               </div>
-              
-              {message.role === 'user' && (
-                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                  <User className="w-4 h-4 text-muted-foreground" />
-                </div>
-              )}
-            </div>
-          ))}
+            )}
           
-          {isLoading && (
-            <div className="flex gap-3 animate-slide-up">
-              <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center animate-pulse-glow">
-                <Bot className="w-4 h-4 text-primary-foreground" />
+            {summary && <ConversationSummaryPanel summary={summary} />}
+
+            {messages.map((message) => message.kind === 'error' ? (
+              <div key={message.id} className="flex gap-3 animate-slide-up justify-start">
+                <ErrorMessageCard
+                  message={message}
+                  onRetry={() => handleRetryError(message.id)}
+                  onChangeKey={() => handleChangeApiKey(message.error?.provider)}
+                  onSwitchProvider={handleSwitchProvider}
+                  disabled={isLoading}
+                />
+              </div>
+            ) : message.kind === 'tool' ? (
+              <div key={message.id} className="flex gap-3 animate-slide-up justify-start pl-11">
+                <ToolCallCard
+                  message={message}
+                  onApprove={() => handleToolDecision(message.id, true)}
+                  onDeny={() => handleToolDecision(message.id, false)}
+                />
               </div>
-              <div className="bg-secondary p-3 rounded-lg rounded-bl-none">
-                <div className="flex gap-1">
-                  <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                  <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                  <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+            ) : message.toolCalls && !message.content ? null : (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                onTogglePin={() => updateMessage(message.id, { pinned: !message.pinned })}
+              />
+            ))}
+          
+            {isLoading && !messages.some(msg => msg.isStreaming || msg.tool?.status === 'awaiting-approval') && (
+              <div className="flex gap-3 animate-slide-up">
+                <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center animate-pulse-glow">
+                  <Bot className="w-4 h-4 text-primary-foreground" />
+                </div>
+                <div className="bg-secondary p-3 rounded-lg rounded-bl-none">
+                  <div className="flex gap-1">
+                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                    <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                  </div>
+                  {isSummarizing && (
+                    <p className="text-xs text-muted-foreground mt-2">Summarizing earlier conversation...</p>
+                  )}
+                  {retryStatus && (
+                    <RetryCountdown
+                      retryAt={retryStatus.retryAt}
+                      attempt={retryStatus.attempt}
+                      maxAttempts={retryStatus.maxAttempts}
+                      reason={retryStatus.error.message}
+                    />
+                  )}
                 </div>
               </div>
-            </div>
-          )}
-        </div>
-      </ScrollArea>
+            )}
+          </div>
+        </ScrollArea>
+      )}
 
       {/* Input */}
-      <form onSubmit={handleSubmit} className="p-4 border-t border-white/10 bg-card/50">
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          // Moving between the form's own children also fires dragleave
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingImage(false);
+        }}
+        onDrop={handleDrop}
+        className={cn(
+          'p-4 border-t border-white/10 bg-card/50 transition-colors',
+          isDraggingImage && 'bg-primary/10'
+        )}
+      >
+        {attachments.length > 0 && (
+          <ImageThumbnails
+            images={attachments}
+            onRemove={(index) => setAttachments(prev => prev.filter((_, i) => i !== index))}
+            className="mb-2"
+          />
+        )}
+        {blindModels.length > 0 && (
+          <p className="flex items-center gap-1 mb-2 text-xs text-destructive">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            {blindModels.join(', ')} may not be able to see images. Pick a vision model such as gpt-4o or gemini-1.5-flash.
+          </p>
+        )}
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              attachImages(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 text-muted-foreground hover:text-foreground"
+            disabled={isLoading || comparison.isRunning || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+            aria-label="Attach image"
+            title="Attach image (or paste / drop one)"
+          >
+            <ImagePlus className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={handleCaptureScreen}
+            className="px-3 text-muted-foreground hover:text-foreground"
+            disabled={isLoading || comparison.isRunning || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+            aria-label="Capture screen"
+            title="Capture screen"
+          >
+            <MonitorUp className="w-4 h-4" />
+          </Button>
           <Input
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
+            onPaste={handlePaste}
             placeholder="Ask me anything..."
             className="flex-1 bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
-            disabled={isLoading}
+            disabled={isLoading || comparison.isRunning}
             autoFocus
           />
-          <Button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="bg-gradient-primary hover:scale-105 transition-transform"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading || comparison.isRunning ? (
+            <Button
+              type="button"
+              onClick={handleStop}
+              variant="secondary"
+              className="hover:scale-105 transition-transform"
+              aria-label="Stop generating"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!input.trim() && attachments.length === 0}
+              className="bg-gradient-primary hover:scale-105 transition-transform"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
+        <p className="mt-2 text-[10px] text-muted-foreground">
+          ~{nextRequest.promptTokens.toLocaleString()} / {nextRequest.contextWindow.toLocaleString()} tokens
+          {nextRequest.droppedCount > 0 && ` · ${nextRequest.droppedCount} older message${nextRequest.droppedCount === 1 ? '' : 's'} trimmed`}
+        </p>
       </form>
+      <ScreenCaptureDialog frame={capturedFrame} onCancel={() => setCapturedFrame(null)} onAttach={handleAttachCapture} />
     </div>
   );
 };
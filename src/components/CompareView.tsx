@@ -0,0 +1,178 @@
+import React from 'react';
+import { AlertTriangle, Check, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { ModelPicker } from '@/components/ModelPicker';
+import { getProvider, isProvider, listProviders } from '@/lib/providers';
+import { loadSavedConnection } from '@/lib/connections';
+import {
+  createCompareTarget,
+  MAX_COMPARE_TARGETS,
+  MIN_COMPARE_TARGETS,
+  type CompareTarget,
+} from '@/lib/compare';
+import { formatCost } from '@/lib/usage';
+import type { ComparisonColumn, ComparisonState } from '@/hooks/use-comparison';
+
+interface CompareViewProps {
+  comparison: ComparisonState;
+  onAdopt: (column: ComparisonColumn) => void;
+}
+
+export const CompareView: React.FC<CompareViewProps> = ({ comparison, onAdopt }) => {
+  const { targets, columns, prompt, isRunning } = comparison;
+
+  // Results no longer match a changed lineup, so editing it starts over
+  const updateTargets = (next: CompareTarget[]) => {
+    comparison.clear();
+    comparison.setTargets(next);
+  };
+
+  const updateTarget = (id: string, patch: Partial<CompareTarget>) => {
+    updateTargets(targets.map(target => (target.id === id ? { ...target, ...patch } : target)));
+  };
+
+  const addTarget = () => {
+    const unused = listProviders().find(adapter => !targets.some(target => target.provider === adapter.id));
+    updateTargets([...targets, createCompareTarget(unused?.id ?? targets[0].provider, '')]);
+  };
+
+  const renderColumn = (target: CompareTarget) => {
+    const adapter = getProvider(target.provider);
+    const saved = loadSavedConnection(target.provider);
+    const column = columns.find(candidate => candidate.target.id === target.id);
+
+    return (
+      <div className="flex flex-col h-full">
+        <div className="flex items-center gap-1 p-2 border-b border-white/10">
+          <div className="flex-1 min-w-0">
+            <Select
+              value={target.provider}
+              onValueChange={(value) => isProvider(value) && updateTarget(target.id, { provider: value, model: '' })}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="h-7 text-xs bg-input border-white/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {listProviders().map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ModelPicker
+              key={target.provider}
+              adapter={adapter}
+              connection={saved.connection}
+              model={target.model || saved.model}
+              onModelChange={(model) => updateTarget(target.id, { model })}
+            />
+          </div>
+          {targets.length > MIN_COMPARE_TARGETS && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateTargets(targets.filter(candidate => candidate.id !== target.id))}
+              disabled={isRunning}
+              className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground"
+              aria-label={`Remove ${adapter.label} column`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+
+        <ScrollArea className="flex-1 p-3">
+          {!saved.configured ? (
+            <p className="text-xs text-muted-foreground">
+              {adapter.customEndpoints
+                ? 'Add a custom endpoint in settings to compare it.'
+                : `Save a ${adapter.name} API key in settings to compare it.`}
+            </p>
+          ) : column?.status === 'error' ? (
+            <p className="flex gap-2 text-xs text-destructive">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+              {column.error?.message}
+            </p>
+          ) : column?.status === 'streaming' && !column.text ? (
+            <div className="flex gap-1">
+              <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+              <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+              <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+            </div>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap text-secondary-foreground">
+              {column?.text}
+              {column?.status === 'streaming' && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+              )}
+            </p>
+          )}
+        </ScrollArea>
+
+        {column && column.status !== 'streaming' && column.status !== 'error' && (
+          <div className="flex items-center gap-2 p-2 border-t border-white/10">
+            <span className="flex-1 text-xs text-muted-foreground truncate">
+              {column.status === 'stopped' && 'Stopped'}
+              {column.usage && (
+                <>
+                  {column.usage.estimated && '~'}
+                  {(column.usage.promptTokens + column.usage.completionTokens).toLocaleString()} tokens
+                  {' · '}
+                  {(column.usage.latencyMs / 1000).toFixed(1)}s
+                  {column.usage.cost > 0 && ` · ${formatCost(column.usage.cost)}`}
+                </>
+              )}
+            </span>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onAdopt(column)}
+              disabled={isRunning || !column.text}
+              className="h-7 text-xs"
+            >
+              <Check className="w-3.5 h-3.5 mr-1" />
+              Continue with this one
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10">
+        <p className="flex-1 text-xs text-muted-foreground truncate">
+          {prompt ? `Comparing: ${prompt.content}` : 'Send a prompt to compare answers side by side.'}
+        </p>
+        {targets.length < MAX_COMPARE_TARGETS && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addTarget}
+            disabled={isRunning}
+            className="h-7 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            Add column
+          </Button>
+        )}
+      </div>
+      <ResizablePanelGroup direction="horizontal" className="flex-1">
+        {targets.map((target, index) => (
+          <React.Fragment key={target.id}>
+            {index > 0 && <ResizableHandle withHandle />}
+            <ResizablePanel id={target.id} order={index} defaultSize={100 / targets.length} minSize={15}>
+              {renderColumn(target)}
+            </ResizablePanel>
+          </React.Fragment>
+        ))}
+      </ResizablePanelGroup>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { ChevronDown, ScrollText } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ConversationSummary } from '@/lib/summary';
+import { cn } from '@/lib/utils';
+
+interface ConversationSummaryPanelProps {
+  summary: ConversationSummary;
+}
+
+export const ConversationSummaryPanel: React.FC<ConversationSummaryPanelProps> = ({ summary }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-white/10 bg-card/50">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-xs text-muted-foreground hover:text-foreground">
+        <ScrollText className="w-3.5 h-3.5" />
+        <span className="flex-1 text-left">
+          Conversation so far · {summary.coveredIds.length} earlier messages summarized
+        </span>
+        <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', open && 'rotate-180')} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <p className="px-3 pb-3 text-sm text-foreground/90 whitespace-pre-wrap">{summary.content}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
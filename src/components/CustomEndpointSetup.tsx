@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Server, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createEndpointId, type CustomEndpoint } from '@/lib/endpoints';
+
+const NEW_ENDPOINT = 'new';
+
+const emptyDraft = (): CustomEndpoint => ({
+  id: createEndpointId(),
+  name: '',
+  baseUrl: 'http://localhost:8080/v1',
+  apiKey: '',
+  model: '',
+});
+
+interface CustomEndpointSetupProps {
+  endpoints: CustomEndpoint[];
+  activeId: string | null;
+  onSave: (endpoint: CustomEndpoint) => void;
+  onDelete: (id: string) => void;
+}
+
+export const CustomEndpointSetup: React.FC<CustomEndpointSetupProps> = ({
+  endpoints,
+  activeId,
+  onSave,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState<CustomEndpoint>(
+    () => endpoints.find(endpoint => endpoint.id === activeId) ?? emptyDraft()
+  );
+  const isSaved = endpoints.some(endpoint => endpoint.id === draft.id);
+
+  const handleSelect = (id: string) => {
+    setDraft(endpoints.find(endpoint => endpoint.id === id) ?? emptyDraft());
+  };
+
+  const updateDraft = (patch: Partial<CustomEndpoint>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.baseUrl.trim() || !draft.model.trim()) return;
+
+    onSave({
+      ...draft,
+      name: draft.name.trim() || draft.baseUrl.trim(),
+      baseUrl: draft.baseUrl.trim(),
+      apiKey: draft.apiKey.trim(),
+      model: draft.model.trim(),
+    });
+  };
+
+  const handleDelete = () => {
+    onDelete(draft.id);
+    setDraft(emptyDraft());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {endpoints.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">Saved Endpoints</label>
+          <div className="flex gap-2">
+            <Select value={isSaved ? draft.id : NEW_ENDPOINT} onValueChange={handleSelect}>
+              <SelectTrigger className="flex-1 bg-input border-white/20 focus:border-primary">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {endpoints.map((endpoint) => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+                ))}
+                <SelectItem value={NEW_ENDPOINT}>New endpoint...</SelectItem>
+              </SelectContent>
+            </Select>
+            {isSaved && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={handleDelete}
+                className="text-muted-foreground hover:text-destructive"
+                aria-label="Delete endpoint"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Name</label>
+        <Input
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          placeholder="Local llama.cpp"
+          className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Base URL</label>
+        <Input
+          value={draft.baseUrl}
+          onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+          placeholder="http://localhost:8080/v1"
+          className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">API Key (optional)</label>
+        <Input
+          type="password"
+          value={draft.apiKey}
+          onChange={(e) => updateDraft({ apiKey: e.target.value })}
+          placeholder="Leave empty if the server does not check keys"
+          className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Model</label>
+        <Input
+          value={draft.model}
+          onChange={(e) => updateDraft({ model: e.target.value })}
+          placeholder="llama-3.1-8b-instruct"
+          className="w-full bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={!draft.baseUrl.trim() || !draft.model.trim()}
+        className="w-full bg-gradient-primary hover:scale-105 transition-transform"
+      >
+        <Server className="w-4 h-4 mr-2" />
+        Save Endpoint
+      </Button>
+    </form>
+  );
+};
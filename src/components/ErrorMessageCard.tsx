@@ -0,0 +1,78 @@
+import React from 'react';
+import { AlertTriangle, Key, RefreshCw, Repeat } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { Message } from '@/lib/chat';
+import { ERROR_TITLES, getProvider, listProviders, type AIProvider } from '@/lib/providers';
+
+interface ErrorMessageCardProps {
+  message: Message;
+  onRetry: () => void;
+  onChangeKey: () => void;
+  onSwitchProvider: (provider: AIProvider) => void;
+  disabled?: boolean;
+}
+
+export const ErrorMessageCard: React.FC<ErrorMessageCardProps> = ({
+  message,
+  onRetry,
+  onChangeKey,
+  onSwitchProvider,
+  disabled,
+}) => {
+  const category = message.error?.category ?? 'server';
+  const failedProvider = message.error?.provider;
+  // Retrying with the same key cannot fix an auth or quota problem
+  const canRetry = category !== 'auth' && category !== 'quota';
+  const canChangeKey = !failedProvider || getProvider(failedProvider).requiresApiKey;
+
+  return (
+    <Alert variant="destructive" className="max-w-[80%] bg-destructive/10 backdrop-blur-sm">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {ERROR_TITLES[category]}
+        {failedProvider && <span className="font-normal opacity-70"> · {getProvider(failedProvider).name}</span>}
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-foreground/80">{message.content}</p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          {canRetry && (
+            <Button size="sm" variant="secondary" className="h-7" onClick={onRetry} disabled={disabled}>
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Retry
+            </Button>
+          )}
+          {canChangeKey && (
+            <Button size="sm" variant="secondary" className="h-7" onClick={onChangeKey} disabled={disabled}>
+              <Key className="w-3 h-3 mr-1" />
+              Change key
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="secondary" className="h-7" disabled={disabled}>
+                <Repeat className="w-3 h-3 mr-1" />
+                Switch provider
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {listProviders()
+                .filter(option => option.id !== failedProvider)
+                .map(option => (
+                  <DropdownMenuItem key={option.id} onSelect={() => onSwitchProvider(option.id)}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { RotateCcw, Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { GenerationSettingsState } from '@/hooks/use-generation-params';
+import { getProvider, type AIProvider, type GenerationParams } from '@/lib/providers';
+import { cn } from '@/lib/utils';
+
+interface GenerationSettingsProps {
+  generation: GenerationSettingsState;
+  // Decides how many stop sequences actually reach the API
+  provider: AIProvider;
+}
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const SliderField: React.FC<SliderFieldProps> = ({ label, value, min, max, step, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <label className="text-xs text-muted-foreground uppercase tracking-wide">{label}</label>
+      <span className="text-xs font-medium text-foreground">{value}</span>
+    </div>
+    <Slider
+      value={[value]}
+      onValueChange={(values) => onChange(values[0])}
+      min={min}
+      max={max}
+      step={step}
+      className="w-full"
+    />
+  </div>
+);
+
+export const GenerationSettings: React.FC<GenerationSettingsProps> = ({ generation, provider }) => {
+  const { presets, activePreset, overrides, params, selectPreset, updateParams, resetOverrides, saveAsPreset, removePreset } = generation;
+  const [presetName, setPresetName] = useState('');
+  const [stopInput, setStopInput] = useState('');
+  const hasOverrides = Object.keys(overrides).length > 0;
+  const { label: providerLabel, maxStopSequences = Infinity } = getProvider(provider);
+  const stopLimitReached = params.stopSequences.length >= maxStopSequences;
+
+  const update = <K extends keyof GenerationParams>(key: K) => (value: GenerationParams[K]) => {
+    updateParams({ [key]: value } as Partial<GenerationParams>);
+  };
+
+  const handleAddStop = (e: React.FormEvent) => {
+    e.preventDefault();
+    const sequence = stopInput.replace(/\\n/g, '\n');
+    if (!sequence || stopLimitReached || params.stopSequences.includes(sequence)) return;
+    updateParams({ stopSequences: [...params.stopSequences, sequence] });
+    setStopInput('');
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+    saveAsPreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Generation settings"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-[80vh] overflow-y-auto space-y-4" align="end">
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground uppercase tracking-wide">Preset</label>
+          <div className="flex gap-2">
+            <Select value={activePreset.id} onValueChange={selectPreset}>
+              <SelectTrigger className="flex-1 h-8 bg-input border-white/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!activePreset.builtIn && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => removePreset(activePreset.id)}
+                aria-label="Delete preset"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {hasOverrides && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Adjusted for this conversation</span>
+              <button type="button" onClick={resetOverrides} className="flex items-center gap-1 text-primary hover:underline">
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </button>
+            </div>
+          )}
+        </div>
+
+        <SliderField label="Temperature" value={params.temperature} min={0} max={2} step={0.05} onChange={update('temperature')} />
+        <SliderField label="Top P" value={params.topP} min={0} max={1} step={0.05} onChange={update('topP')} />
+        <SliderField label="Presence Penalty" value={params.presencePenalty} min={-2} max={2} step={0.1} onChange={update('presencePenalty')} />
+        <SliderField label="Frequency Penalty" value={params.frequencyPenalty} min={-2} max={2} step={0.1} onChange={update('frequencyPenalty')} />
+
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground uppercase tracking-wide">Max Output Tokens</label>
+          <Input
+            type="number"
+            min={1}
+            value={params.maxTokens}
+            onChange={(e) => update('maxTokens')(Math.max(1, Number(e.target.value) || 1))}
+            className="h-8 bg-input border-white/20"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground uppercase tracking-wide">Stop Sequences</label>
+          {params.stopSequences.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {params.stopSequences.map((sequence, index) => (
+                <button
+                  key={sequence}
+                  type="button"
+                  onClick={() => updateParams({ stopSequences: params.stopSequences.filter(s => s !== sequence) })}
+                  className={cn(
+                    'px-2 py-0.5 rounded bg-secondary text-xs text-secondary-foreground hover:bg-destructive hover:text-destructive-foreground',
+                    index >= maxStopSequences && 'line-through opacity-50'
+                  )}
+                  title={index >= maxStopSequences ? `Not sent to ${providerLabel}. Remove` : 'Remove'}
+                >
+                  {JSON.stringify(sequence)}
+                </button>
+              ))}
+            </div>
+          )}
+          {params.stopSequences.length > maxStopSequences && (
+            <p className="text-xs text-destructive">
+              {providerLabel} accepts {maxStopSequences}; the rest are not sent.
+            </p>
+          )}
+          <form onSubmit={handleAddStop}>
+            <Input
+              value={stopInput}
+              onChange={(e) => setStopInput(e.target.value)}
+              placeholder={stopLimitReached ? `${providerLabel} allows up to ${maxStopSequences}` : 'Type and press Enter (\\n for newline)'}
+              disabled={stopLimitReached}
+              className="h-8 bg-input border-white/20"
+            />
+          </form>
+        </div>
+
+        <form onSubmit={handleSavePreset} className="flex gap-2 pt-3 border-t border-white/10">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Save as preset..."
+            className="h-8 bg-input border-white/20"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={!presetName.trim()}>
+            <Save className="w-4 h-4" />
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
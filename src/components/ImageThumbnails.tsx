@@ -0,0 +1,47 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import type { ImagePart } from '@/lib/providers';
+import { toDataUrl } from '@/lib/images';
+import { cn } from '@/lib/utils';
+
+interface ImageThumbnailsProps {
+  images: ImagePart[];
+  // Shows a remove button on each thumbnail, as in the composer
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+export const ImageThumbnails: React.FC<ImageThumbnailsProps> = ({ images, onRemove, className }) => (
+  <div className={cn('flex flex-wrap gap-2', className)}>
+    {images.map((image, index) => (
+      <div key={index} className="relative">
+        <Dialog>
+          <DialogTrigger asChild>
+            <button type="button" className="block rounded overflow-hidden border border-white/10" aria-label={`View image ${index + 1}`}>
+              <img
+                src={toDataUrl(image)}
+                alt={`Attached image ${index + 1}`}
+                className={cn('w-auto object-cover', onRemove ? 'h-14 max-w-[6rem]' : 'h-24 max-w-[12rem]')}
+              />
+            </button>
+          </DialogTrigger>
+          <DialogContent className="max-w-[90vw] w-auto p-2">
+            <DialogTitle className="sr-only">Attached image {index + 1}</DialogTitle>
+            <img src={toDataUrl(image)} alt={`Attached image ${index + 1}`} className="max-h-[85vh] w-auto mx-auto rounded" />
+          </DialogContent>
+        </Dialog>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="absolute -top-1.5 -right-1.5 rounded-full bg-background border border-white/20 p-0.5 text-muted-foreground hover:text-foreground"
+            aria-label={`Remove image ${index + 1}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ModelPullDialog } from '@/components/ModelPullDialog';
+import type { ProviderAdapter, ProviderConnection } from '@/lib/providers';
+
+interface LocalModelSetupProps {
+  adapter: ProviderAdapter;
+  connection: ProviderConnection;
+  model: string;
+  onSave: (model: string) => void;
+}
+
+// Setup for providers that run locally without an API key: pick an installed model.
+export const LocalModelSetup: React.FC<LocalModelSetupProps> = ({ adapter, connection, model, onSave }) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [selected, setSelected] = useState(model);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The connection object is rebuilt on every render, so the effect keys on its fields
+  const { apiKey, baseUrl } = connection;
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const installed = await adapter.listModels({ apiKey, baseUrl });
+      setModels(installed);
+      setSelected(current => (installed.includes(current) ? current : installed[0] ?? ''));
+    } catch (listError) {
+      setError(listError.message);
+      setModels([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adapter, apiKey, baseUrl]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handlePulled = async (pulled: string) => {
+    await refresh();
+    setSelected(pulled);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected) onSave(selected);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Installed Models</label>
+        <div className="flex gap-2">
+          <Select value={selected} onValueChange={setSelected} disabled={models.length === 0}>
+            <SelectTrigger className="flex-1 bg-input border-white/20 focus:border-primary">
+              <SelectValue placeholder={isLoading ? 'Loading models...' : 'No models installed'} />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={refresh}
+            disabled={isLoading}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Refresh models"
+          >
+            <RefreshCw className={isLoading ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive text-left">{error}</p>}
+      </div>
+
+      {adapter.pullModel && !error && (
+        <ModelPullDialog adapter={adapter} connection={connection} onPulled={handlePulled} />
+      )}
+
+      <Button
+        type="submit"
+        disabled={!selected}
+        className="w-full bg-gradient-primary hover:scale-105 transition-transform"
+      >
+        <HardDrive className="w-4 h-4 mr-2" />
+        Use {adapter.name}
+      </Button>
+    </form>
+  );
+};
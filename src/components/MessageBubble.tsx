@@ -0,0 +1,104 @@
+import React from 'react';
+import { Bot, Pin, User } from 'lucide-react';
+import type { Message } from '@/lib/chat';
+import { ERROR_TITLES, getProvider } from '@/lib/providers';
+import { StructuredOutputView } from '@/components/StructuredOutputView';
+import { ImageThumbnails } from '@/components/ImageThumbnails';
+import { formatCost } from '@/lib/usage';
+import { cn } from '@/lib/utils';
+
+interface MessageBubbleProps {
+  message: Message;
+  onTogglePin: () => void;
+}
+
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onTogglePin }) => {
+  return (
+    <div
+      className={cn(
+        "group flex gap-3 animate-slide-up",
+        message.role === 'user' ? 'justify-end' : 'justify-start'
+      )}
+    >
+      {message.role === 'assistant' && (
+        <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center flex-shrink-0">
+          <Bot className="w-4 h-4 text-primary-foreground" />
+        </div>
+      )}
+      
+      <div
+        className={cn(
+          "max-w-[80%] p-3 rounded-lg",
+          message.role === 'user'
+            ? 'bg-primary text-primary-foreground rounded-br-none'
+            : 'bg-secondary text-secondary-foreground rounded-bl-none'
+        )}
+      >
+        {message.images?.length > 0 && (
+          <ImageThumbnails images={message.images} className={cn(message.content && 'mb-2')} />
+        )}
+        {message.structured?.data !== undefined ? (
+          <StructuredOutputView data={message.structured.data} />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">
+            {message.content}
+            {message.isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+            )}
+          </p>
+        )}
+        {message.structured?.error && (
+          <p className="text-xs text-destructive mt-1">
+            Does not match {message.structured.schemaName}: {message.structured.error}
+          </p>
+        )}
+        {!message.isStreaming && message.failedAttempts && message.usage && (
+          <p
+            className="text-xs opacity-70 mt-1"
+            title={message.failedAttempts.map(attempt => `${getProvider(attempt.provider).label}: ${attempt.message}`).join('\n')}
+          >
+            Answered by {getProvider(message.usage.provider).label} after{' '}
+            {message.failedAttempts
+              .map(attempt => `${getProvider(attempt.provider).label} failed (${ERROR_TITLES[attempt.category].toLowerCase()})`)
+              .join(', ')}
+          </p>
+        )}
+        {!message.isStreaming && (
+          <span className="flex items-center gap-1 text-xs opacity-70 mt-1">
+            {message.timestamp.toLocaleTimeString()}
+            {message.stopped && ' · Stopped'}
+            {message.structured?.retried && ' · Corrected once'}
+            {message.usage && (
+              <span title={`${message.usage.model} · ${message.usage.promptTokens.toLocaleString()} prompt / ${message.usage.completionTokens.toLocaleString()} completion tokens`}>
+                {' · '}
+                {message.usage.estimated && '~'}
+                {(message.usage.promptTokens + message.usage.completionTokens).toLocaleString()} tokens
+                {' · '}
+                {(message.usage.latencyMs / 1000).toFixed(1)}s
+                {message.usage.cost > 0 && ` · ${formatCost(message.usage.cost)}`}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={onTogglePin}
+              className={cn(
+                'ml-auto pl-2 transition-opacity',
+                message.pinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+              )}
+              title={message.pinned ? 'Unpin (may be trimmed from context)' : 'Pin (always kept in context)'}
+              aria-label={message.pinned ? 'Unpin message' : 'Pin message'}
+            >
+              <Pin className={cn('w-3 h-3', message.pinned && 'fill-current')} />
+            </button>
+          </span>
+        )}
+      </div>
+      
+      {message.role === 'user' && (
+        <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+          <User className="w-4 h-4 text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { loadMockSettings, saveMockSettings, type MockSettings } from '@/lib/providers';
+
+interface DelayFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const DelayField: React.FC<DelayFieldProps> = ({ id, label, value, onChange }) => (
+  <div className="flex items-center justify-between gap-2">
+    <label htmlFor={id} className="text-xs text-muted-foreground uppercase tracking-wide">{label}</label>
+    <div className="flex items-center gap-1">
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={50}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+        className="h-8 w-24 bg-input border-white/20"
+      />
+      <span className="text-xs text-muted-foreground">ms</span>
+    </div>
+  </div>
+);
+
+// Tuning for the offline mock provider; the selected model picks the behaviour.
+export const MockProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<MockSettings>(loadMockSettings);
+
+  const update = (patch: Partial<MockSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveMockSettings(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Mock provider settings"
+        >
+          <FlaskConical className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <p className="text-xs text-muted-foreground">
+          Pick a model to choose the behaviour: echo, scripted replies, or a simulated 401, 429, 500, timeout or
+          malformed response.
+        </p>
+        <DelayField id="mock-latency" label="Latency" value={settings.latencyMs} onChange={(latencyMs) => update({ latencyMs })} />
+        <DelayField id="mock-chunk-delay" label="Per word" value={settings.chunkDelayMs} onChange={(chunkDelayMs) => update({ chunkDelayMs })} />
+        <DelayField id="mock-timeout" label="Timeout after" value={settings.timeoutMs} onChange={(timeoutMs) => update({ timeoutMs })} />
+        <div className="space-y-2">
+          <label htmlFor="mock-script" className="text-xs text-muted-foreground uppercase tracking-wide">
+            Script (one reply per line)
+          </label>
+          <Textarea
+            id="mock-script"
+            value={settings.script.join('\n')}
+            onChange={(e) => update({ script: e.target.value.split('\n') })}
+            rows={5}
+            className="bg-input border-white/20 text-xs"
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useModels } from '@/hooks/use-models';
+import { loadFavoriteModels, toggleFavoriteModel } from '@/lib/models';
+import type { ProviderAdapter, ProviderConnection } from '@/lib/providers';
+import { cn } from '@/lib/utils';
+
+interface ModelPickerProps {
+  adapter: ProviderAdapter;
+  connection: ProviderConnection;
+  model: string;
+  onModelChange: (model: string) => void;
+}
+
+export const ModelPicker: React.FC<ModelPickerProps> = ({ adapter, connection, model, onModelChange }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [favorites, setFavorites] = useState<string[]>(() => loadFavoriteModels(adapter.id));
+  const { data: models = [], isLoading, error } = useModels(adapter, connection, open);
+
+  const others = models.filter(name => !favorites.includes(name));
+  const typed = search.trim();
+
+  const handleSelect = (name: string) => {
+    onModelChange(name);
+    setOpen(false);
+    setSearch('');
+  };
+
+  const handleToggleFavorite = (e: React.MouseEvent, name: string) => {
+    e.stopPropagation();
+    setFavorites(toggleFavoriteModel(adapter.id, name));
+  };
+
+  const renderItem = (name: string) => (
+    <CommandItem key={name} value={name} onSelect={() => handleSelect(name)}>
+      <Check className={cn('w-4 h-4 mr-2', name === model ? 'opacity-100' : 'opacity-0')} />
+      <span className="flex-1 truncate">{name}</span>
+      <button
+        type="button"
+        onClick={(e) => handleToggleFavorite(e, name)}
+        className="ml-2 text-muted-foreground hover:text-primary"
+        aria-label={favorites.includes(name) ? `Unfavorite ${name}` : `Favorite ${name}`}
+      >
+        <Star className={cn('w-3.5 h-3.5', favorites.includes(name) && 'fill-primary text-primary')} />
+      </button>
+    </CommandItem>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          role="combobox"
+          aria-expanded={open}
+          className="h-6 px-2 -ml-2 text-xs text-muted-foreground hover:text-foreground max-w-[220px]"
+        >
+          <span className="truncate">{model || 'Select model'}</span>
+          <ChevronsUpDown className="w-3 h-3 ml-1 shrink-0 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search models..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>
+              {isLoading ? 'Loading models...' : error ? error.message : 'No models found.'}
+            </CommandEmpty>
+            {favorites.length > 0 && (
+              <CommandGroup heading="Favorites">
+                {favorites.map(renderItem)}
+              </CommandGroup>
+            )}
+            {others.length > 0 && (
+              <CommandGroup heading={favorites.length > 0 ? 'All models' : undefined}>
+                {others.map(renderItem)}
+              </CommandGroup>
+            )}
+            {typed && !models.includes(typed) && !favorites.includes(typed) && (
+              <CommandGroup heading="Custom">
+                <CommandItem value={typed} onSelect={() => handleSelect(typed)}>
+                  Use "{typed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import type { ProviderAdapter, ProviderConnection, PullProgress } from '@/lib/providers';
+
+interface ModelPullDialogProps {
+  adapter: ProviderAdapter;
+  connection: ProviderConnection;
+  onPulled: (model: string) => void;
+}
+
+const formatBytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(0)} MB`;
+
+export const ModelPullDialog: React.FC<ModelPullDialogProps> = ({ adapter, connection, onPulled }) => {
+  const [open, setOpen] = useState(false);
+  const [model, setModel] = useState('');
+  const [progress, setProgress] = useState<PullProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPulling, setIsPulling] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A download must not outlive the setup screen that would receive it
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const percent = progress?.total ? Math.round(((progress.completed || 0) / progress.total) * 100) : 0;
+
+  const handlePull = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // The dialog is portalled, but React still bubbles the submit to the setup form around it
+    e.stopPropagation();
+    const name = model.trim();
+    if (!name || isPulling || !adapter.pullModel) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsPulling(true);
+    setError(null);
+    setProgress({ status: 'starting' });
+
+    try {
+      await adapter.pullModel(connection, name, setProgress, controller.signal);
+      onPulled(name);
+      setOpen(false);
+      setModel('');
+      setProgress(null);
+    } catch (pullError) {
+      if (!controller.signal.aborted) {
+        setError(pullError.message);
+      }
+    } finally {
+      setIsPulling(false);
+      abortRef.current = null;
+    }
+  };
+
+  // Closing the dialog cancels a running download
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      abortRef.current?.abort();
+      setProgress(null);
+      setError(null);
+    }
+    setOpen(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full border-white/20">
+          <Download className="w-4 h-4 mr-2" />
+          Pull a Model
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pull a model</DialogTitle>
+          <DialogDescription>
+            Download a model from the {adapter.name} library, e.g. <code>llama3.2</code> or <code>qwen2.5:7b</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handlePull} className="space-y-4">
+          <Input
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="llama3.2"
+            disabled={isPulling}
+            className="bg-input border-white/20 focus:border-primary focus:ring-1 focus:ring-primary transition-all"
+            autoFocus
+          />
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {progress.status}
+                {progress.total ? ` — ${formatBytes(progress.completed || 0)} / ${formatBytes(progress.total)}` : ''}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={!model.trim() || isPulling}
+              className="bg-gradient-primary"
+            >
+              {isPulling ? `Pulling... ${percent}%` : 'Pull'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  createPersonaId,
+  deletePersona,
+  exportPersonas,
+  importPersonas,
+  upsertPersona,
+  validatePersona,
+  type Persona,
+} from '@/lib/personas';
+import { isProvider, listProviders, type AIProvider } from '@/lib/providers';
+import { cn } from '@/lib/utils';
+
+interface PersonaManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  personas: Persona[];
+  onPersonasChange: (personas: Persona[]) => void;
+  // Preselected for personas that have no provider yet
+  provider: AIProvider;
+}
+
+const newPersona = (): Persona => ({
+  id: createPersonaId(),
+  name: 'New persona',
+  icon: '🤖',
+  systemPrompt: '',
+});
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const PersonaManagerDialog: React.FC<PersonaManagerDialogProps> = ({
+  open,
+  onOpenChange,
+  personas,
+  onPersonasChange,
+  provider,
+}) => {
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateDraft = (patch: Partial<Persona>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateDraftParams = (patch: Partial<NonNullable<Persona['params']>>) => {
+    setDraft(prev => (prev ? { ...prev, params: { ...prev.params, ...patch } } : prev));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const model = draft.model?.trim() || undefined;
+    const persona = { ...draft, name: draft.name.trim(), model, provider: model ? draft.provider ?? provider : undefined };
+    const problem = validatePersona(persona);
+    setError(problem);
+    if (problem) return;
+    onPersonasChange(upsertPersona(persona));
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    onPersonasChange(deletePersona(draft.id));
+    setDraft(null);
+  };
+
+  const handleDuplicate = (persona: Persona) => {
+    setDraft({ ...persona, id: createPersonaId(), name: `${persona.name} (copy)`, builtIn: undefined });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPersonas(personas.filter(persona => !persona.builtIn))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'personas.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onPersonasChange(importPersonas(await file.text()));
+      setError(null);
+    } catch (importError) {
+      setError(importError.message);
+    }
+  };
+
+  const isSaved = !!draft && personas.some(persona => persona.id === draft.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Personas</DialogTitle>
+          <DialogDescription>
+            A persona sets the system prompt and, optionally, the model and parameters used for the chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[200px_1fr] gap-4 min-h-[320px]">
+          <div className="flex flex-col gap-2">
+            <ScrollArea className="flex-1 max-h-[320px] border border-white/10 rounded-md">
+              <div className="p-1">
+                {personas.map((persona) => (
+                  <button
+                    key={persona.id}
+                    type="button"
+                    onClick={() => setDraft(persona)}
+                    className={cn(
+                      'w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left hover:bg-secondary',
+                      draft?.id === persona.id && 'bg-secondary'
+                    )}
+                  >
+                    <span>{persona.icon}</span>
+                    <span className="truncate flex-1">{persona.name}</span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <Button type="button" variant="outline" size="sm" onClick={() => setDraft(newPersona())}>
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+            <div className="flex gap-2">
+              <Button type="button" variant="ghost" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-1" />
+                Import
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="flex-1" onClick={handleExport}>
+                <Download className="w-4 h-4 mr-1" />
+                Export
+              </Button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  value={draft.icon}
+                  onChange={(e) => updateDraft({ icon: e.target.value })}
+                  className="w-14 text-center bg-input border-white/20"
+                  aria-label="Icon"
+                  disabled={draft.builtIn}
+                />
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="Name"
+                  className="flex-1 bg-input border-white/20"
+                  disabled={draft.builtIn}
+                />
+              </div>
+              <Textarea
+                value={draft.systemPrompt}
+                onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+                placeholder="System prompt"
+                className="min-h-[140px] bg-input border-white/20"
+                disabled={draft.builtIn}
+              />
+              <div className="grid grid-cols-3 gap-2">
+                <Select
+                  value={draft.provider ?? provider}
+                  onValueChange={(value) => isProvider(value) && updateDraft({ provider: value })}
+                  disabled={draft.builtIn}
+                >
+                  <SelectTrigger className="bg-input border-white/20" aria-label="Provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listProviders().map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={draft.model ?? ''}
+                  onChange={(e) => updateDraft({ model: e.target.value })}
+                  placeholder="Default model"
+                  className="col-span-2 bg-input border-white/20"
+                  disabled={draft.builtIn}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  step={0.05}
+                  min={0}
+                  max={2}
+                  value={draft.params?.temperature ?? ''}
+                  onChange={(e) => updateDraftParams({ temperature: optionalNumber(e.target.value) })}
+                  placeholder="Temperature"
+                  className="bg-input border-white/20"
+                  disabled={draft.builtIn}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.params?.maxTokens ?? ''}
+                  onChange={(e) => updateDraftParams({ maxTokens: optionalNumber(e.target.value) })}
+                  placeholder="Max tokens"
+                  className="bg-input border-white/20"
+                  disabled={draft.builtIn}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                {draft.builtIn ? (
+                  <Button type="button" variant="outline" onClick={() => handleDuplicate(draft)}>
+                    <Copy className="w-4 h-4 mr-1" />
+                    Duplicate to edit
+                  </Button>
+                ) : (
+                  <>
+                    {isSaved && (
+                      <Button type="button" variant="ghost" onClick={handleDelete} className="text-destructive">
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete
+                      </Button>
+                    )}
+                    <Button type="submit" disabled={!draft.name.trim()} className="bg-gradient-primary">
+                      Save
+                    </Button>
+                  </>
+                )}
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-center justify-center text-sm text-muted-foreground">
+              Select a persona to view or edit it.
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
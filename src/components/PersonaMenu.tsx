@@ -0,0 +1,56 @@
+import React from 'react';
+import { Check, UserCog } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { Persona } from '@/lib/personas';
+import { cn } from '@/lib/utils';
+
+interface PersonaMenuProps {
+  personas: Persona[];
+  activePersona: Persona | null;
+  onSelect: (id: string | null) => void;
+  onManage: () => void;
+}
+
+export const PersonaMenu: React.FC<PersonaMenuProps> = ({ personas, activePersona, onSelect, onManage }) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Persona"
+        >
+          {activePersona ? <span className="text-base leading-none">{activePersona.icon}</span> : <UserCog className="w-4 h-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Persona</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => onSelect(null)}>
+          <Check className={cn('w-4 h-4 mr-2', activePersona ? 'opacity-0' : 'opacity-100')} />
+          No persona
+        </DropdownMenuItem>
+        {personas.map((persona) => (
+          <DropdownMenuItem key={persona.id} onSelect={() => onSelect(persona.id)}>
+            <Check className={cn('w-4 h-4 mr-2', activePersona?.id === persona.id ? 'opacity-100' : 'opacity-0')} />
+            <span className="mr-2">{persona.icon}</span>
+            <span className="truncate">{persona.name}</span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onManage}>
+          <UserCog className="w-4 h-4 mr-2" />
+          Manage personas...
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,200 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ShieldCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getProvider, isProvider, listProviders } from '@/lib/providers';
+import type { FallbackSettings } from '@/lib/fallback';
+import type { RetryPolicy } from '@/lib/retry';
+import type { SummarySettings } from '@/lib/summary';
+
+interface RetrySectionProps {
+  retryPolicy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+const RetrySection: React.FC<RetrySectionProps> = ({ retryPolicy, onChange }) => (
+  <div className="space-y-2">
+    <label htmlFor="retry-attempts" className="text-xs text-muted-foreground uppercase tracking-wide">
+      Attempts on 429 / 5xx
+    </label>
+    <Input
+      id="retry-attempts"
+      type="number"
+      min={1}
+      max={6}
+      value={retryPolicy.maxAttempts}
+      onChange={(e) => onChange({
+        ...retryPolicy,
+        maxAttempts: Math.min(6, Math.max(1, Number(e.target.value) || 1)),
+      })}
+      className="h-8 bg-input border-white/20"
+    />
+  </div>
+);
+
+interface SummarySectionProps {
+  settings: SummarySettings;
+  onChange: (settings: SummarySettings) => void;
+}
+
+const SummarySection: React.FC<SummarySectionProps> = ({ settings, onChange }) => (
+  <div className="space-y-2 pt-3 border-t border-white/10">
+    <div className="flex items-center justify-between">
+      <label htmlFor="summarize-toggle" className="text-xs text-muted-foreground uppercase tracking-wide">
+        Summarize Long Chats
+      </label>
+      <Switch
+        id="summarize-toggle"
+        checked={settings.enabled}
+        onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+      />
+    </div>
+    {settings.enabled && (
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground whitespace-nowrap">After ~</span>
+        <Input
+          type="number"
+          min={500}
+          step={500}
+          value={settings.thresholdTokens}
+          onChange={(e) => onChange({
+            ...settings,
+            thresholdTokens: Math.max(500, Number(e.target.value) || 500),
+          })}
+          className="h-8 bg-input border-white/20"
+        />
+        <span className="text-xs text-muted-foreground">tokens</span>
+      </div>
+    )}
+  </div>
+);
+
+interface FallbackSectionProps {
+  settings: FallbackSettings;
+  onChange: (settings: FallbackSettings) => void;
+}
+
+const FallbackSection: React.FC<FallbackSectionProps> = ({ settings, onChange }) => {
+  const { chain } = settings;
+  const unchained = listProviders().filter(adapter => !chain.includes(adapter.id));
+
+  const updateChain = (next: typeof chain) => onChange({ ...settings, chain: next });
+
+  const moveInChain = (index: number, offset: number) => {
+    const next = [...chain];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateChain(next);
+  };
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-white/10">
+      <div className="flex items-center justify-between">
+        <label htmlFor="fallback-toggle" className="text-xs text-muted-foreground uppercase tracking-wide">
+          Fall Back On Failure
+        </label>
+        <Switch
+          id="fallback-toggle"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+      </div>
+      {settings.enabled && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            On outages, quota or network errors, try these in order. Providers that aren't set up are skipped.
+          </p>
+          <ol className="space-y-1">
+            {chain.map((id, index) => (
+              <li key={id} className="flex items-center gap-1 text-xs">
+                <span className="flex-1 text-foreground">{index + 1}. {getProvider(id).label}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => moveInChain(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${getProvider(id).label} up`}
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => moveInChain(index, 1)}
+                  disabled={index === chain.length - 1}
+                  aria-label={`Move ${getProvider(id).label} down`}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => updateChain(chain.filter(candidate => candidate !== id))}
+                  aria-label={`Remove ${getProvider(id).label}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+          {unchained.length > 0 && (
+            <Select value="" onValueChange={(value) => isProvider(value) && updateChain([...chain, value])}>
+              <SelectTrigger className="h-8 bg-input border-white/20">
+                <SelectValue placeholder="Add provider..." />
+              </SelectTrigger>
+              <SelectContent>
+                {unchained.map((adapter) => (
+                  <SelectItem key={adapter.id} value={adapter.id}>
+                    {adapter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface ReplySettingsProps {
+  retryPolicy: RetryPolicy;
+  onRetryPolicyChange: (policy: RetryPolicy) => void;
+  summarySettings: SummarySettings;
+  onSummarySettingsChange: (settings: SummarySettings) => void;
+  fallbackSettings: FallbackSettings;
+  onFallbackSettingsChange: (settings: FallbackSettings) => void;
+}
+
+// How replies are delivered: retries, fallback providers and summarizing long histories.
+export const ReplySettings: React.FC<ReplySettingsProps> = ({
+  retryPolicy,
+  onRetryPolicyChange,
+  summarySettings,
+  onSummarySettingsChange,
+  fallbackSettings,
+  onFallbackSettingsChange,
+}) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground hover:text-foreground"
+        aria-label="Reply settings"
+      >
+        <ShieldCheck className="w-4 h-4" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-80 max-h-[80vh] overflow-y-auto space-y-4" align="end">
+      <RetrySection retryPolicy={retryPolicy} onChange={onRetryPolicyChange} />
+      <SummarySection settings={summarySettings} onChange={onSummarySettingsChange} />
+      <FallbackSection settings={fallbackSettings} onChange={onFallbackSettingsChange} />
+    </PopoverContent>
+  </Popover>
+);
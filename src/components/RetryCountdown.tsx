@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+
+interface RetryCountdownProps {
+  retryAt: number;
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+}
+
+export const RetryCountdown: React.FC<RetryCountdownProps> = ({ retryAt, attempt, maxAttempts, reason }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const seconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  return (
+    <p className="text-xs text-muted-foreground mt-2">
+      {reason} {seconds > 0 ? `Retrying in ${seconds}s` : 'Retrying now'} (attempt {attempt} of {maxAttempts})
+    </p>
+  );
+};
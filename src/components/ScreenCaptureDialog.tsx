@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Crop, EyeOff, Loader2, Paperclip, RotateCcw, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toast } from '@/hooks/use-toast';
+import type { ImagePart } from '@/lib/providers';
+import { exportCapture, normalizeRect, type Point, type Rect } from '@/lib/screen-capture';
+
+// Smaller drags are treated as clicks
+const MIN_SELECTION = 8;
+
+type EditMode = 'crop' | 'redact';
+
+interface ScreenCaptureDialogProps {
+  // The captured frame; the dialog is open while one is set
+  frame: HTMLCanvasElement | null;
+  onCancel: () => void;
+  onAttach: (image: ImagePart) => void;
+}
+
+export const ScreenCaptureDialog: React.FC<ScreenCaptureDialogProps> = ({ frame, onCancel, onAttach }) => {
+  const [mode, setMode] = useState<EditMode>('crop');
+  const [crop, setCrop] = useState<Rect | null>(null);
+  const [redactions, setRedactions] = useState<Rect[]>([]);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const frameUrl = useMemo(() => frame?.toDataURL('image/png'), [frame]);
+
+  useEffect(() => {
+    setMode('crop');
+    setCrop(null);
+    setRedactions([]);
+    setDragStart(null);
+    setDragEnd(null);
+  }, [frame]);
+
+  if (!frame) return null;
+
+  // Maps a pointer position on the scaled preview to frame pixels
+  const toFramePoint = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width) * frame.width,
+      y: clamp((e.clientY - bounds.top) / bounds.height) * frame.height,
+    };
+  };
+
+  const toStyle = (rect: Rect): React.CSSProperties => ({
+    left: `${(rect.x / frame.width) * 100}%`,
+    top: `${(rect.y / frame.height) * 100}%`,
+    width: `${(rect.width / frame.width) * 100}%`,
+    height: `${(rect.height / frame.height) * 100}%`,
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toFramePoint(e);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDragEnd(toFramePoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart || !dragEnd) return;
+    const rect = normalizeRect(dragStart, dragEnd);
+    const isSelection = rect.width >= MIN_SELECTION && rect.height >= MIN_SELECTION;
+    if (mode === 'crop') {
+      // A click clears the crop so the whole frame is sent again
+      setCrop(isSelection ? rect : null);
+    } else if (isSelection) {
+      setRedactions(prev => [...prev, rect]);
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleAttach = async () => {
+    setIsExporting(true);
+    try {
+      onAttach(await exportCapture(frame, crop, redactions));
+    } catch (error) {
+      toast({
+        title: 'Could not attach the capture',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const draft = dragStart && dragEnd ? normalizeRect(dragStart, dragEnd) : null;
+  const output = crop ?? { width: frame.width, height: frame.height };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Attach screen capture</DialogTitle>
+          <DialogDescription>
+            Drag to crop to a region, or switch to redact and cover anything private. Redacted areas are blacked out
+            before the image leaves your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as EditMode)} size="sm">
+            <ToggleGroupItem value="crop" aria-label="Crop">
+              <Crop className="w-4 h-4 mr-1" />
+              Crop
+            </ToggleGroupItem>
+            <ToggleGroupItem value="redact" aria-label="Redact">
+              <EyeOff className="w-4 h-4 mr-1" />
+              Redact
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRedactions(prev => prev.slice(0, -1))}
+            disabled={redactions.length === 0}
+          >
+            <Undo2 className="w-4 h-4 mr-1" />
+            Undo redaction
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setCrop(null);
+              setRedactions([]);
+            }}
+            disabled={!crop && redactions.length === 0}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {Math.round(output.width)} × {Math.round(output.height)} px
+          </span>
+        </div>
+
+        <div className="flex justify-center">
+          <div
+            className="relative inline-block overflow-hidden select-none touch-none cursor-crosshair rounded border border-white/10"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={frameUrl} alt="Captured screen" className="block max-h-[60vh] max-w-full" draggable={false} />
+            {crop && (
+              <div
+                className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                style={toStyle(crop)}
+              />
+            )}
+            {redactions.map((rect, index) => (
+              <div key={index} className="absolute bg-black pointer-events-none" style={toStyle(rect)} />
+            ))}
+            {draft && (
+              <div
+                className={
+                  mode === 'crop'
+                    ? 'absolute border-2 border-dashed border-primary pointer-events-none'
+                    : 'absolute bg-black/70 pointer-events-none'
+                }
+                style={toStyle(draft)}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleAttach} disabled={isExporting} className="bg-gradient-primary">
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+            Attach
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Braces, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  listOutputSchemas,
+  parseOutputSchema,
+  type StructuredOutputSettings,
+} from '@/lib/structured';
+import { cn } from '@/lib/utils';
+
+const SCHEMA_PLACEHOLDER = '{\n  "type": "object",\n  "properties": {\n    "summary": { "type": "string" }\n  },\n  "required": ["summary"]\n}';
+
+interface StructuredOutputMenuProps {
+  settings: StructuredOutputSettings;
+  onChange: (settings: StructuredOutputSettings) => void;
+}
+
+export const StructuredOutputMenu: React.FC<StructuredOutputMenuProps> = ({ settings, onChange }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftSchema, setDraftSchema] = useState('');
+  const [draftError, setDraftError] = useState('');
+
+  const schemas = listOutputSchemas(settings);
+  const selected = schemas.find(schema => schema.id === settings.schemaId) ?? schemas[0];
+
+  const handleAdd = () => {
+    let schema;
+    try {
+      schema = parseOutputSchema(draftSchema);
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const id = `custom-${Date.now()}`;
+    onChange({
+      ...settings,
+      schemaId: id,
+      customSchemas: [...settings.customSchemas, { id, name: draftName.trim(), schema }],
+    });
+    setIsAdding(false);
+    setDraftName('');
+    setDraftSchema('');
+    setDraftError('');
+  };
+
+  const handleDelete = () => {
+    onChange({
+      ...settings,
+      schemaId: schemas[0].id,
+      customSchemas: settings.customSchemas.filter(schema => schema.id !== selected.id),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('hover:text-foreground', settings.enabled ? 'text-primary' : 'text-muted-foreground')}
+          aria-label="JSON output"
+          title={settings.enabled ? `JSON output: ${selected.name}` : 'JSON output'}
+        >
+          <Braces className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-[80vh] overflow-y-auto space-y-4" align="end">
+        <div className="flex items-center justify-between">
+          <label htmlFor="json-output-toggle" className="text-xs text-muted-foreground uppercase tracking-wide">
+            JSON Output
+          </label>
+          <Switch
+            id="json-output-toggle"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Replies must match the chosen schema. One that does not is sent back once for correction.
+        </p>
+
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground uppercase tracking-wide">Schema</label>
+          <div className="flex gap-2">
+            <Select value={selected.id} onValueChange={(schemaId) => onChange({ ...settings, schemaId })}>
+              <SelectTrigger className="h-8 bg-input border-white/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {schemas.map(schema => (
+                  <SelectItem key={schema.id} value={schema.id}>{schema.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!selected.builtIn && (
+              <Button variant="ghost" size="sm" className="h-8 px-2" onClick={handleDelete} aria-label="Delete schema">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <pre className="max-h-40 overflow-auto rounded bg-input p-2 text-xs font-mono text-foreground/80">
+            {JSON.stringify(selected.schema, null, 2)}
+          </pre>
+        </div>
+
+        {isAdding ? (
+          <div className="space-y-2 pt-3 border-t border-white/10">
+            <Input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="Schema name"
+              className="h-8 bg-input border-white/20"
+            />
+            <Textarea
+              value={draftSchema}
+              onChange={(e) => {
+                setDraftSchema(e.target.value);
+                setDraftError('');
+              }}
+              placeholder={SCHEMA_PLACEHOLDER}
+              rows={8}
+              className="bg-input border-white/20 text-xs font-mono"
+            />
+            {draftError && <p className="text-xs text-destructive">{draftError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsAdding(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleAdd} disabled={!draftName.trim() || !draftSchema.trim()}>
+                Save schema
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="secondary" size="sm" className="w-full" onClick={() => setIsAdding(true)}>
+            <Plus className="w-3 h-3 mr-1" />
+            New schema
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
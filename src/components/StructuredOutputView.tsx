@@ -0,0 +1,108 @@
+import React from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordList = (value: unknown): value is JsonRecord[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+// Tabulates the first list of objects found, or else the top-level fields one per row.
+const toRows = (data: unknown): JsonRecord[] => {
+  if (isRecordList(data)) return data;
+  if (isRecord(data)) {
+    const list = Object.values(data).find(isRecordList);
+    return list ?? Object.entries(data).map(([field, value]) => ({ field, value }));
+  }
+  return [{ value: data }];
+};
+
+const formatCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every(item => !isRecord(item) && !Array.isArray(item))) return value.join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const JsonTable: React.FC<{ data: unknown }> = ({ data }) => {
+  const rows = toRows(data);
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          {columns.map(column => <TableHead key={column} className="h-8">{column}</TableHead>)}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, index) => (
+          <TableRow key={index}>
+            {columns.map(column => (
+              <TableCell key={column} className="py-1.5 align-top whitespace-pre-wrap">{formatCell(row[column])}</TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth }) => {
+  const label = name !== undefined && <span className="text-muted-foreground">{name}: </span>;
+
+  if (!isRecord(value) && !Array.isArray(value)) {
+    return (
+      <div className="pl-4">
+        {label}
+        <span className={cn(typeof value === 'string' ? 'text-green-400' : 'text-primary')}>{JSON.stringify(value)}</span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  return (
+    // Only the first levels start open so long replies stay scannable
+    <Collapsible defaultOpen={depth < 2}>
+      <CollapsibleTrigger className="group flex items-center gap-0.5 hover:text-foreground">
+        <ChevronRight className="w-3 h-3 transition-transform group-data-[state=open]:rotate-90" />
+        {label}
+        <span className="text-muted-foreground">
+          {Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pl-2 border-l border-white/10 ml-1.5">
+        {entries.map(([key, item]) => <JsonNode key={key} name={key} value={item} depth={depth + 1} />)}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+interface StructuredOutputViewProps {
+  data: unknown;
+}
+
+export const StructuredOutputView: React.FC<StructuredOutputViewProps> = ({ data }) => (
+  <Tabs defaultValue="table" className="w-full">
+    <TabsList className="h-7">
+      <TabsTrigger value="table" className="text-xs py-0.5">Table</TabsTrigger>
+      <TabsTrigger value="tree" className="text-xs py-0.5">Tree</TabsTrigger>
+    </TabsList>
+    <TabsContent value="table" className="overflow-x-auto">
+      <JsonTable data={data} />
+    </TabsContent>
+    <TabsContent value="tree" className="font-mono text-xs">
+      <JsonNode value={data} depth={0} />
+    </TabsContent>
+  </Tabs>
+);
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, Loader2, ShieldAlert, Wrench, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { Message, ToolInvocation } from '@/lib/chat';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<ToolInvocation['status'], string> = {
+  'awaiting-approval': 'Needs approval',
+  running: 'Running',
+  done: 'Done',
+  denied: 'Denied',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatJson = (json: string) => {
+  try {
+    return JSON.stringify(JSON.parse(json || '{}'), null, 2);
+  } catch {
+    return json;
+  }
+};
+
+interface ToolCallCardProps {
+  message: Message;
+  onApprove: () => void;
+  onDeny: () => void;
+}
+
+export const ToolCallCard: React.FC<ToolCallCardProps> = ({ message, onApprove, onDeny }) => {
+  const tool = message.tool;
+  const awaitingApproval = tool.status === 'awaiting-approval';
+  const [open, setOpen] = useState(awaitingApproval);
+
+  return (
+    <Collapsible
+      open={open || awaitingApproval}
+      onOpenChange={setOpen}
+      className={cn(
+        'max-w-[80%] rounded-lg border bg-card/50 text-xs',
+        awaitingApproval ? 'border-primary/60' : 'border-white/10'
+      )}
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-muted-foreground hover:text-foreground">
+        {awaitingApproval ? <ShieldAlert className="w-3.5 h-3.5 text-primary" /> : <Wrench className="w-3.5 h-3.5" />}
+        <span className="font-mono text-foreground">{tool.name}</span>
+        <span className={cn('flex-1 text-left', (tool.status === 'error' || tool.status === 'denied') && 'text-destructive')}>
+          {STATUS_LABELS[tool.status]}
+        </span>
+        {tool.status === 'running' && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+        <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', open && 'rotate-180')} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-2">
+        <div>
+          <p className="text-muted-foreground uppercase tracking-wide mb-1">Arguments</p>
+          <pre className="whitespace-pre-wrap break-all font-mono text-foreground/90">{formatJson(tool.arguments)}</pre>
+        </div>
+        {message.content && (
+          <div>
+            <p className="text-muted-foreground uppercase tracking-wide mb-1">Result</p>
+            <pre className="whitespace-pre-wrap break-all font-mono text-foreground/90">{formatJson(message.content)}</pre>
+          </div>
+        )}
+        {awaitingApproval && (
+          <div className="flex gap-2 pt-1">
+            <Button size="sm" className="h-7" onClick={onApprove}>
+              <Check className="w-3 h-3 mr-1" />
+              Allow
+            </Button>
+            <Button size="sm" variant="secondary" className="h-7" onClick={onDeny}>
+              <X className="w-3 h-3 mr-1" />
+              Deny
+            </Button>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
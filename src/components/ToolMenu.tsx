@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { listProviders } from '@/lib/providers';
+import { listTools, loadToolSettings, saveToolSettings, type ToolSettings } from '@/lib/tools';
+
+// Switches individual built-in tools on or off; every tool starts enabled.
+export const ToolMenu: React.FC = () => {
+  const [settings, setSettings] = useState<ToolSettings>(loadToolSettings);
+  const supportingProviders = listProviders().filter(adapter => adapter.parseToolCalls).map(adapter => adapter.name);
+
+  const toggle = (name: string, enabled: boolean) => {
+    const disabled = settings.disabled.filter(other => other !== name);
+    const next = { ...settings, disabled: enabled ? disabled : [...disabled, name] };
+    setSettings(next);
+    saveToolSettings(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Tools"
+        >
+          <Wrench className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-[80vh] overflow-y-auto space-y-3" align="end">
+        <div>
+          <p className="text-xs text-muted-foreground uppercase tracking-wide">Tools</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Run locally when the model asks. Only {supportingProviders.join(' and ')} can call tools.
+          </p>
+        </div>
+        {listTools().map(tool => (
+          <div key={tool.name} className="flex items-start justify-between gap-3">
+            <label htmlFor={`tool-${tool.name}`} className="space-y-0.5">
+              <span className="block font-mono text-xs">{tool.name}</span>
+              <span className="block text-xs text-muted-foreground line-clamp-2">{tool.description}</span>
+              {tool.sensitive && <span className="block text-xs text-primary">Asks before each use</span>}
+            </label>
+            <Switch
+              id={`tool-${tool.name}`}
+              checked={!settings.disabled.includes(tool.name)}
+              onCheckedChange={(enabled) => toggle(tool.name, enabled)}
+            />
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,125 @@
+import { useRef, useState } from 'react';
+import {
+  getProvider,
+  isAbortError,
+  streamChat,
+  toProviderError,
+  type ChatResult,
+  type ErrorCategory,
+} from '@/lib/providers';
+import { loadCompareTargets, saveCompareTargets, type CompareTarget } from '@/lib/compare';
+import { recordUsage, toMessageUsage, type MessageUsage } from '@/lib/usage';
+import type { Message } from '@/lib/chat';
+import type { PreparedRequest } from '@/lib/reply';
+
+export interface ComparisonColumn {
+  target: CompareTarget;
+  status: 'streaming' | 'done' | 'stopped' | 'error';
+  text: string;
+  // Model the request actually went to, after falling back to the provider's saved model
+  model?: string;
+  usage?: MessageUsage;
+  error?: { category: ErrorCategory; message: string };
+}
+
+export interface ComparisonState {
+  targets: CompareTarget[];
+  setTargets: (targets: CompareTarget[]) => void;
+  // The user turn the current columns answer
+  prompt: Message | null;
+  columns: ComparisonColumn[];
+  isRunning: boolean;
+  run: (prompt: Message, prepare: (target: CompareTarget) => PreparedRequest) => Promise<void>;
+  stop: () => void;
+  clear: () => void;
+}
+
+export function useComparison(): ComparisonState {
+  const [targets, setTargetsState] = useState<CompareTarget[]>(loadCompareTargets);
+  const [prompt, setPrompt] = useState<Message | null>(null);
+  const [columns, setColumns] = useState<ComparisonColumn[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const setTargets = (next: CompareTarget[]) => {
+    saveCompareTargets(next);
+    setTargetsState(next);
+  };
+
+  const updateColumn = (id: string, patch: Partial<ComparisonColumn>) => {
+    setColumns(prev => prev.map(column => (column.target.id === id ? { ...column, ...patch } : column)));
+  };
+
+  // Streams every target concurrently; one column failing leaves the others running.
+  const run = async (userMessage: Message, prepare: (target: CompareTarget) => PreparedRequest) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPrompt(userMessage);
+    setColumns(targets.map(target => ({ target, status: 'streaming', text: '' })));
+
+    await Promise.all(targets.map(async (target) => {
+      let prepared: PreparedRequest | undefined;
+      let streamedText = '';
+      const startedAt = Date.now();
+      const recordAttempt = (completionText: string, result?: ChatResult) =>
+        recordUsage(toMessageUsage(result?.usage, {
+          provider: target.provider,
+          model: prepared.request.model,
+          latencyMs: Date.now() - startedAt,
+          promptTokens: prepared.promptTokens,
+          completionText,
+        }));
+
+      try {
+        prepared = prepare(target);
+        updateColumn(target.id, { model: prepared.request.model });
+
+        const result = await streamChat(getProvider(target.provider), prepared.request, {
+          signal: controller.signal,
+          onText: (text) => {
+            streamedText = text;
+            updateColumn(target.id, { text });
+          },
+        });
+        updateColumn(target.id, { status: 'done', text: result.text, usage: recordAttempt(result.text, result) });
+      } catch (error) {
+        // A stopped or broken stream is still billed for the prompt and whatever it produced
+        const usage = prepared && (isAbortError(error) || streamedText) ? recordAttempt(streamedText) : undefined;
+        if (isAbortError(error)) {
+          updateColumn(target.id, { status: 'stopped', usage });
+          return;
+        }
+        const providerError = toProviderError(error);
+        updateColumn(target.id, {
+          status: 'error',
+          usage,
+          error: { category: providerError.category, message: providerError.message },
+        });
+      }
+    }));
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+    }
+  };
+
+  const stop = () => {
+    controllerRef.current?.abort();
+  };
+
+  const clear = () => {
+    stop();
+    setPrompt(null);
+    setColumns([]);
+  };
+
+  return {
+    targets,
+    setTargets,
+    prompt,
+    columns,
+    isRunning: columns.some(column => column.status === 'streaming'),
+    run,
+    stop,
+    clear,
+  };
+}
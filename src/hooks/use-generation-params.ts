@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  deletePreset,
+  findPreset,
+  loadActivePresetId,
+  loadPresets,
+  savePreset,
+  setActivePresetId,
+  type GenerationPreset,
+} from '@/lib/generation';
+import type { GenerationParams } from '@/lib/providers';
+
+export interface GenerationSettingsState {
+  presets: GenerationPreset[];
+  activePreset: GenerationPreset;
+  // Edits made for the current conversation only, layered over the active preset
+  overrides: Partial<GenerationParams>;
+  params: GenerationParams;
+  selectPreset: (id: string) => void;
+  updateParams: (patch: Partial<GenerationParams>) => void;
+  resetOverrides: () => void;
+  // Drops the overrides `previous` applied, unless edited since, and layers `next` on top
+  swapOverrides: (previous: Partial<GenerationParams>, next: Partial<GenerationParams>) => void;
+  saveAsPreset: (name: string) => void;
+  removePreset: (id: string) => void;
+}
+
+const definedOnly = (params: Partial<GenerationParams>): Partial<GenerationParams> =>
+  Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+
+// `initialOverrides` seeds the overrides on mount, e.g. from a persona restored after a reload.
+export function useGenerationParams(initialOverrides: Partial<GenerationParams> = {}): GenerationSettingsState {
+  const [presets, setPresets] = useState<GenerationPreset[]>(loadPresets);
+  const [activePresetId, setActivePresetIdState] = useState<string>(loadActivePresetId);
+  const [overrides, setOverrides] = useState<Partial<GenerationParams>>(() => definedOnly(initialOverrides));
+
+  const activePreset = findPreset(presets, activePresetId);
+  const params = { ...activePreset.params, ...overrides };
+
+  const selectPreset = (id: string) => {
+    setActivePresetId(id);
+    setActivePresetIdState(id);
+    setOverrides({});
+  };
+
+  const saveAsPreset = (name: string) => {
+    const next = savePreset(name, params);
+    setPresets(next);
+    setActivePresetIdState(next[next.length - 1].id);
+    setOverrides({});
+  };
+
+  const removePreset = (id: string) => {
+    setPresets(deletePreset(id));
+    if (id === activePresetId) {
+      selectPreset(BUILT_IN_PRESETS[0].id);
+    }
+  };
+
+  return {
+    presets,
+    activePreset,
+    overrides,
+    params,
+    selectPreset,
+    updateParams: (patch) => setOverrides(prev => ({ ...prev, ...patch })),
+    resetOverrides: () => setOverrides({}),
+    swapOverrides: (previous, next) => setOverrides(prev => ({
+      ...Object.fromEntries(Object.entries(prev).filter(([key, value]) => previous[key] !== value)),
+      ...definedOnly(next),
+    })),
+    saveAsPreset,
+    removePreset,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ProviderAdapter, ProviderConnection } from '@/lib/providers';
+
+const MODEL_LIST_STALE_TIME = 60 * 60 * 1000;
+
+// Fetches and caches the provider's model list for the given connection.
+export function useModels(adapter: ProviderAdapter, connection: ProviderConnection, enabled = true) {
+  return useQuery({
+    queryKey: ['models', adapter.id, connection.baseUrl ?? '', connection.apiKey],
+    queryFn: () => adapter.listModels(connection),
+    enabled: enabled && (!adapter.requiresApiKey || !!connection.apiKey),
+    staleTime: MODEL_LIST_STALE_TIME,
+    retry: false,
+  });
+}
@@ -0,0 +1,94 @@
+import type { AIProvider } from '@/lib/providers';
+import type { UsageRecord } from '@/lib/usage';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface ProviderBudget {
+  // USD; unset means no limit for that period
+  daily?: number;
+  monthly?: number;
+  // Share of a limit at which a warning is shown before the hard block at 100%
+  warnAtPercent: number;
+}
+
+export interface BudgetSettings {
+  providers: Partial<Record<AIProvider, ProviderBudget>>;
+  // Daily budgets reset at local midnight, monthly ones at midnight on this day of the month
+  monthlyResetDay: number;
+}
+
+export interface BudgetStatus {
+  provider: AIProvider;
+  period: BudgetPeriod;
+  level: 'ok' | 'warn' | 'blocked';
+  spent: number;
+  limit: number;
+  percent: number;
+  resetsAt: Date;
+}
+
+const BUDGETS_KEY = 'spend-budgets';
+
+export const DEFAULT_WARN_PERCENT = 80;
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  providers: {},
+  monthlyResetDay: 1,
+};
+
+export const loadBudgetSettings = (): BudgetSettings => loadJsonSettings(BUDGETS_KEY, DEFAULT_BUDGET_SETTINGS);
+
+export const saveBudgetSettings = (settings: BudgetSettings) => saveJson(BUDGETS_KEY, settings);
+
+// Clamped to 28 so the reset day exists in every month.
+const resetDay = (settings: BudgetSettings) => Math.min(Math.max(Math.round(settings.monthlyResetDay) || 1, 1), 28);
+
+export const periodBounds = (period: BudgetPeriod, settings: BudgetSettings, now = new Date()) => {
+  if (period === 'daily') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1) };
+  }
+  const day = resetDay(settings);
+  const monthOffset = now.getDate() >= day ? 0 : -1;
+  const start = new Date(now.getFullYear(), now.getMonth() + monthOffset, day);
+  return { start, end: new Date(start.getFullYear(), start.getMonth() + 1, day) };
+};
+
+export const spentSince = (records: UsageRecord[], provider: AIProvider, since: Date) =>
+  records
+    .filter(record => record.provider === provider && new Date(record.timestamp) >= since)
+    .reduce((sum, record) => sum + record.cost, 0);
+
+// Status for each period the provider has a limit on.
+export const getBudgetStatuses = (
+  provider: AIProvider,
+  records: UsageRecord[],
+  settings: BudgetSettings,
+  now = new Date()
+): BudgetStatus[] => {
+  const budget = settings.providers[provider];
+  if (!budget) return [];
+
+  return (['daily', 'monthly'] as const)
+    .filter(period => (budget[period] ?? 0) > 0)
+    .map(period => {
+      const limit = budget[period];
+      const { start, end } = periodBounds(period, settings, now);
+      const spent = spentSince(records, provider, start);
+      const percent = (spent / limit) * 100;
+      const level = percent >= 100 ? 'blocked' : percent >= budget.warnAtPercent ? 'warn' : 'ok';
+      return { provider, period, level, spent, limit, percent, resetsAt: end };
+    });
+};
+
+// The most severe status, or undefined when every budget is comfortably within its limit.
+export const checkBudget = (
+  provider: AIProvider,
+  records: UsageRecord[],
+  settings: BudgetSettings,
+  now = new Date()
+): BudgetStatus | undefined => {
+  const statuses = getBudgetStatuses(provider, records, settings, now);
+  return statuses.find(status => status.level === 'blocked') ?? statuses.find(status => status.level === 'warn');
+};
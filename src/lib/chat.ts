@@ -0,0 +1,89 @@
+import type { AIProvider, ChatMessage, ErrorCategory, ImagePart, ToolCall } from '@/lib/providers';
+import type { MessageUsage } from '@/lib/usage';
+
+export interface MessageError {
+  category: ErrorCategory;
+  provider: AIProvider;
+}
+
+// A provider that failed before the fallback chain moved on
+export interface FailedAttempt extends MessageError {
+  message: string;
+}
+
+export interface ToolInvocation {
+  callId: string;
+  name: string;
+  // JSON-encoded, as requested by the model
+  arguments: string;
+  status: 'awaiting-approval' | 'running' | 'done' | 'denied' | 'error' | 'cancelled';
+}
+
+// The outcome of checking a reply requested in JSON output mode
+export interface StructuredReply {
+  schemaName: string;
+  // The validated value; absent when the reply did not match
+  data?: unknown;
+  error?: string;
+  // Set when an earlier reply failed validation and this is the corrected attempt
+  retried?: boolean;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  // Attached by the user alongside the text
+  images?: ImagePart[];
+  timestamp: Date;
+  // Error messages are shown in the transcript but never sent back to the model;
+  // tool messages carry a tool's result in `content`
+  kind?: 'error' | 'tool';
+  error?: MessageError;
+  tool?: ToolInvocation;
+  // Tools an assistant reply asked for; their results follow as tool messages
+  toolCalls?: ToolCall[];
+  isStreaming?: boolean;
+  // Set when the user stopped generation; content holds the partial reply
+  stopped?: boolean;
+  // Pinned messages survive context-window trimming
+  pinned?: boolean;
+  // Recorded on assistant replies
+  usage?: MessageUsage;
+  // Providers that failed before the one in `usage` answered
+  failedAttempts?: FailedAttempt[];
+  structured?: StructuredReply;
+}
+
+export const createMessage = (content: string, role: Message['role'], extra: Partial<Message> = {}): Message => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  content,
+  role,
+  timestamp: new Date(),
+  ...extra,
+});
+
+// Maps the transcript to the history sent to providers, leaving out error cards.
+// Providers reject calls without results and results without calls, which
+// trimming or a stopped turn can leave behind, so unpaired halves are dropped.
+export const toChatMessages = (messages: Message[]): ChatMessage[] => {
+  const answered = new Set(messages.filter(msg => msg.kind === 'tool').map(msg => msg.tool?.callId));
+  const called = new Set(messages.flatMap(msg => msg.toolCalls ?? []).map(call => call.id));
+
+  return messages
+    .filter(msg => msg.kind !== 'error')
+    .flatMap((msg): ChatMessage[] => {
+      if (msg.kind === 'tool') {
+        return called.has(msg.tool?.callId)
+          ? [{ role: 'tool', content: msg.content, toolCallId: msg.tool.callId, toolName: msg.tool.name }]
+          : [];
+      }
+      const toolCalls = msg.toolCalls?.filter(call => answered.has(call.id));
+      return [{
+        role: msg.role,
+        content: msg.content,
+        ...(msg.images?.length && { images: msg.images }),
+        ...(toolCalls?.length && { toolCalls }),
+      }];
+    });
+};
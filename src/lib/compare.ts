@@ -0,0 +1,32 @@
+import { isProvider, type AIProvider } from '@/lib/providers';
+import { loadJsonList, saveJson } from '@/lib/storage';
+
+export interface CompareTarget {
+  id: string;
+  provider: AIProvider;
+  model: string;
+}
+
+const COMPARE_TARGETS_KEY = 'compare-targets';
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+export const createCompareTarget = (provider: AIProvider, model: string): CompareTarget => ({
+  id: `target-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  provider,
+  model,
+});
+
+const DEFAULT_COMPARE_TARGETS: CompareTarget[] = [
+  createCompareTarget('openai', ''),
+  createCompareTarget('gemini', ''),
+];
+
+// An empty model means the provider's saved model is used.
+export const loadCompareTargets = (): CompareTarget[] => {
+  const targets = loadJsonList<CompareTarget>(COMPARE_TARGETS_KEY).filter(target => isProvider(target?.provider));
+  return targets.length >= MIN_COMPARE_TARGETS ? targets.slice(0, MAX_COMPARE_TARGETS) : DEFAULT_COMPARE_TARGETS;
+};
+
+export const saveCompareTargets = (targets: CompareTarget[]) => saveJson(COMPARE_TARGETS_KEY, targets);
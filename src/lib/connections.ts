@@ -0,0 +1,28 @@
+import { getProvider, type AIProvider, type ProviderConnection } from '@/lib/providers';
+import { loadActiveEndpoint } from '@/lib/endpoints';
+
+export interface SavedConnection {
+  connection: ProviderConnection;
+  model: string;
+  configured: boolean;
+}
+
+// Credentials and model saved for a provider, so it can be called without switching the main chat to it.
+export const loadSavedConnection = (provider: AIProvider): SavedConnection => {
+  const adapter = getProvider(provider);
+  if (adapter.customEndpoints) {
+    const endpoint = loadActiveEndpoint();
+    return {
+      connection: { apiKey: endpoint?.apiKey ?? '', baseUrl: endpoint?.baseUrl },
+      model: endpoint?.model ?? '',
+      configured: !!endpoint,
+    };
+  }
+
+  const apiKey = localStorage.getItem(`${provider}-api-key`) || '';
+  return {
+    connection: { apiKey },
+    model: localStorage.getItem(`${provider}-model`) || adapter.defaultModel,
+    configured: !adapter.requiresApiKey || !!apiKey,
+  };
+};
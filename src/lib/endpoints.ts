@@ -0,0 +1,48 @@
+import { loadJsonList, saveJson } from '@/lib/storage';
+
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+const ENDPOINTS_KEY = 'custom-endpoints';
+const ACTIVE_ENDPOINT_KEY = 'custom-endpoint-active';
+
+export const loadEndpoints = (): CustomEndpoint[] => loadJsonList(ENDPOINTS_KEY);
+
+export const saveEndpoints = (endpoints: CustomEndpoint[]) => saveJson(ENDPOINTS_KEY, endpoints);
+
+export const loadActiveEndpoint = (): CustomEndpoint | null => {
+  const activeId = localStorage.getItem(ACTIVE_ENDPOINT_KEY);
+  return loadEndpoints().find(endpoint => endpoint.id === activeId) ?? null;
+};
+
+export const setActiveEndpoint = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_ENDPOINT_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_ENDPOINT_KEY);
+  }
+};
+
+// Inserts or replaces the endpoint and returns the updated list.
+export const upsertEndpoint = (endpoint: CustomEndpoint): CustomEndpoint[] => {
+  const endpoints = loadEndpoints();
+  const index = endpoints.findIndex(existing => existing.id === endpoint.id);
+  const next = index === -1
+    ? [...endpoints, endpoint]
+    : endpoints.map(existing => (existing.id === endpoint.id ? endpoint : existing));
+  saveEndpoints(next);
+  return next;
+};
+
+export const deleteEndpoint = (id: string): CustomEndpoint[] => {
+  const next = loadEndpoints().filter(endpoint => endpoint.id !== id);
+  saveEndpoints(next);
+  return next;
+};
+
+export const createEndpointId = () => `endpoint-${Date.now().toString(36)}`;
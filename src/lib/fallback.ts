@@ -0,0 +1,42 @@
+import { isProvider, type AIProvider, type ProviderError } from '@/lib/providers';
+import { loadSavedConnection, type SavedConnection } from '@/lib/connections';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+
+export interface FallbackSettings {
+  enabled: boolean;
+  // Tried in order after the active provider; providers without saved credentials are skipped
+  chain: AIProvider[];
+}
+
+const FALLBACK_SETTINGS_KEY = 'fallback-chain';
+
+export const DEFAULT_FALLBACK_SETTINGS: FallbackSettings = {
+  enabled: false,
+  chain: ['openai', 'gemini', 'ollama'],
+};
+
+export const loadFallbackSettings = (): FallbackSettings => {
+  const saved = loadJsonSettings(FALLBACK_SETTINGS_KEY, DEFAULT_FALLBACK_SETTINGS);
+  return { ...saved, chain: Array.isArray(saved.chain) ? saved.chain.filter(isProvider) : [] };
+};
+
+export const saveFallbackSettings = (settings: FallbackSettings) => saveJson(FALLBACK_SETTINGS_KEY, settings);
+
+// Outages, exhausted quotas and unreachable hosts are provider problems another provider may not share.
+// Rejected or blocked prompts would fail the same way everywhere.
+export const shouldFallBack = (error: ProviderError) =>
+  error.category === 'server' ||
+  error.category === 'quota' ||
+  error.category === 'network' ||
+  error.category === 'rate-limit';
+
+export const fallbackTargets = (
+  primary: AIProvider,
+  settings: FallbackSettings
+): (SavedConnection & { provider: AIProvider })[] => {
+  if (!settings.enabled) return [];
+  return settings.chain
+    .filter(provider => provider !== primary)
+    .map(provider => ({ provider, ...loadSavedConnection(provider) }))
+    .filter(target => target.configured);
+};
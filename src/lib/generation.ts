@@ -0,0 +1,62 @@
+import type { GenerationParams } from '@/lib/providers';
+import { loadJsonList, saveJson } from '@/lib/storage';
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  params: GenerationParams;
+  builtIn?: boolean;
+}
+
+const PRESETS_KEY = 'generation-presets';
+const ACTIVE_PRESET_KEY = 'generation-preset';
+
+export const DEFAULT_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  maxTokens: 1000,
+  topP: 1,
+  presencePenalty: 0,
+  frequencyPenalty: 0,
+  stopSequences: [],
+};
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  { id: 'balanced', name: 'Balanced', builtIn: true, params: DEFAULT_PARAMS },
+  {
+    id: 'precise',
+    name: 'Precise',
+    builtIn: true,
+    params: { ...DEFAULT_PARAMS, temperature: 0.2, maxTokens: 4000, topP: 0.9 },
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    builtIn: true,
+    params: { ...DEFAULT_PARAMS, temperature: 1.1, maxTokens: 2000, presencePenalty: 0.4, frequencyPenalty: 0.3 },
+  },
+];
+
+const loadUserPresets = (): GenerationPreset[] => loadJsonList(PRESETS_KEY);
+
+export const loadPresets = (): GenerationPreset[] => [...BUILT_IN_PRESETS, ...loadUserPresets()];
+
+export const savePreset = (name: string, params: GenerationParams): GenerationPreset[] => {
+  const preset: GenerationPreset = { id: `preset-${Date.now().toString(36)}`, name, params };
+  saveJson(PRESETS_KEY, [...loadUserPresets(), preset]);
+  setActivePresetId(preset.id);
+  return loadPresets();
+};
+
+export const deletePreset = (id: string): GenerationPreset[] => {
+  saveJson(PRESETS_KEY, loadUserPresets().filter(preset => preset.id !== id));
+  return loadPresets();
+};
+
+export const loadActivePresetId = () => localStorage.getItem(ACTIVE_PRESET_KEY) || BUILT_IN_PRESETS[0].id;
+
+export const setActivePresetId = (id: string) => {
+  localStorage.setItem(ACTIVE_PRESET_KEY, id);
+};
+
+export const findPreset = (presets: GenerationPreset[], id: string) =>
+  presets.find(preset => preset.id === id) ?? BUILT_IN_PRESETS[0];
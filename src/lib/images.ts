@@ -0,0 +1,64 @@
+import type { ImagePart } from '@/lib/providers';
+
+// Longest side after downscaling. Providers shrink larger images anyway but still bill the upload.
+export const MAX_IMAGE_DIMENSION = 1568;
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+const JPEG_QUALITY = 0.85;
+
+// Images this small in a format every provider accepts are sent untouched
+const PASSTHROUGH_BYTES = 512 * 1024;
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+export const toDataUrl = (image: ImagePart) => `data:${image.mimeType};base64,${image.data}`;
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Re-encodes as JPEG, which keeps screenshots legible at a fraction of the PNG size.
+export const encodeCanvas = async (canvas: HTMLCanvasElement): Promise<ImagePart> => {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      result => (result ? resolve(result) : reject(new Error('The image could not be compressed.'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+  return { mimeType: 'image/jpeg', data: await blobToBase64(blob) };
+};
+
+export const prepareImage = async (blob: Blob): Promise<ImagePart> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error('This image format cannot be read.');
+  }
+
+  try {
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && blob.size <= PASSTHROUGH_BYTES && PASSTHROUGH_TYPES.includes(blob.type)) {
+      return { mimeType: blob.type, data: await blobToBase64(blob) };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    // JPEG has no transparency, which would otherwise turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await encodeCanvas(canvas);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,46 @@
+import type { AIProvider } from '@/lib/providers';
+import { loadJsonList, saveJson } from '@/lib/storage';
+
+const favoritesKey = (provider: AIProvider) => `${provider}-favorite-models`;
+
+export const loadFavoriteModels = (provider: AIProvider): string[] => loadJsonList(favoritesKey(provider));
+
+export const toggleFavoriteModel = (provider: AIProvider, model: string): string[] => {
+  const favorites = loadFavoriteModels(provider);
+  const next = favorites.includes(model)
+    ? favorites.filter(favorite => favorite !== model)
+    : [...favorites, model];
+  saveJson(favoritesKey(provider), next);
+  return next;
+};
+
+// Matched by prefix. Local runtimes name vision models after the project they package.
+const VISION_MODELS: Partial<Record<AIProvider, string[]>> = {
+  openai: ['gpt-4o', 'chatgpt-4o', 'gpt-4.1', 'gpt-4-turbo', 'gpt-4-vision', 'gpt-5', 'o1', 'o3', 'o4'],
+  gemini: ['gemini-1.5', 'gemini-2', 'gemini-exp', 'gemini-pro-vision'],
+  anthropic: ['claude-3', 'claude-sonnet-4', 'claude-opus-4', 'claude-haiku-4'],
+  ollama: [
+    'llava',
+    'bakllava',
+    'llama3.2-vision',
+    'llama4',
+    'moondream',
+    'gemma3',
+    'qwen2.5vl',
+    'minicpm-v',
+    'granite3.2-vision',
+    'mistral-small3.1',
+  ],
+};
+
+// Text-only members of otherwise vision-capable families
+const TEXT_ONLY_MODELS = ['o1-mini', 'o1-preview', 'o3-mini', 'gemma3:1b'];
+
+// Best guess from the model name; custom endpoints are checked against every known family.
+export const supportsVision = (provider: AIProvider, model: string): boolean => {
+  const name = model.toLowerCase().split('/').pop() ?? '';
+  if (TEXT_ONLY_MODELS.some(prefix => name.startsWith(prefix))) return false;
+  if (/vision|[-.]vl\b/.test(name)) return true;
+  const prefixes = provider === 'custom' ? Object.values(VISION_MODELS).flat() : VISION_MODELS[provider] ?? [];
+  return prefixes.some(prefix => name.startsWith(prefix));
+};
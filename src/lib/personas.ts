@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { isProvider, type AIProvider, type GenerationParams } from '@/lib/providers';
+import { loadJsonList, saveJson } from '@/lib/storage';
+
+export interface Persona {
+  id: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+  model?: string;
+  // The provider the model belongs to; the model is skipped while another one is active
+  provider?: AIProvider;
+  params?: Partial<GenerationParams>;
+  builtIn?: boolean;
+}
+
+const PERSONAS_KEY = 'personas';
+const ACTIVE_PERSONA_KEY = 'active-persona';
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'meeting-helper',
+    name: 'Concise meeting helper',
+    icon: '🗒️',
+    builtIn: true,
+    systemPrompt:
+      'You are a discreet assistant used during live meetings and calls. Answer in as few words as possible, ' +
+      'lead with the direct answer, and use short bullet points when listing. Never add preambles or closing remarks.',
+    params: { temperature: 0.3, maxTokens: 400 },
+  },
+  {
+    id: 'code-reviewer',
+    name: 'Code reviewer',
+    icon: '🧑‍💻',
+    builtIn: true,
+    systemPrompt:
+      'You are a senior software engineer reviewing code. Point out bugs, edge cases, security issues and ' +
+      'unclear naming, ordered by severity. Quote the relevant lines and suggest concrete fixes as code.',
+    params: { temperature: 0.2, maxTokens: 4000 },
+  },
+  {
+    id: 'interview-coach',
+    name: 'Interview coach',
+    icon: '🎯',
+    builtIn: true,
+    systemPrompt:
+      'You help the user answer interview questions in real time. Give a structured answer outline first ' +
+      '(situation, action, result where it fits), then one strong example sentence they could say.',
+    params: { temperature: 0.6, maxTokens: 600 },
+  },
+];
+
+const personaSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+  icon: z.string().default('🤖'),
+  systemPrompt: z.string(),
+  model: z.string().optional(),
+  provider: z.string().refine(isProvider, 'Unknown provider').optional(),
+  params: z
+    .object({
+      temperature: z.number().min(0).max(2),
+      maxTokens: z.number().int().positive(),
+      topP: z.number().min(0).max(1),
+      presencePenalty: z.number().min(-2).max(2),
+      frequencyPenalty: z.number().min(-2).max(2),
+      stopSequences: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
+});
+
+// Returns what is wrong with a persona, checked as strictly as an imported one, or null.
+export const validatePersona = (persona: Persona): string | null => {
+  const parsed = personaSchema.safeParse(persona);
+  if (parsed.success) return null;
+  const [issue] = parsed.error.issues;
+  return `${issue.path[issue.path.length - 1] ?? 'Persona'}: ${issue.message}`;
+};
+
+export const createPersonaId = () => `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const loadUserPersonas = (): Persona[] => loadJsonList(PERSONAS_KEY);
+
+const saveUserPersonas = (personas: Persona[]) => saveJson(PERSONAS_KEY, personas);
+
+export const loadPersonas = (): Persona[] => [...BUILT_IN_PERSONAS, ...loadUserPersonas()];
+
+export const upsertPersona = (persona: Persona): Persona[] => {
+  const personas = loadUserPersonas();
+  const exists = personas.some(existing => existing.id === persona.id);
+  saveUserPersonas(exists
+    ? personas.map(existing => (existing.id === persona.id ? persona : existing))
+    : [...personas, persona]);
+  return loadPersonas();
+};
+
+export const deletePersona = (id: string): Persona[] => {
+  saveUserPersonas(loadUserPersonas().filter(persona => persona.id !== id));
+  return loadPersonas();
+};
+
+export const loadActivePersonaId = () => localStorage.getItem(ACTIVE_PERSONA_KEY);
+
+export const setActivePersonaId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_PERSONA_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PERSONA_KEY);
+  }
+};
+
+export const exportPersonas = (personas: Persona[]) =>
+  JSON.stringify(personas.map(({ builtIn, ...persona }) => persona), null, 2);
+
+// Parses an exported file and adds its personas, giving fresh ids to any that clash.
+export const importPersonas = (json: string): Persona[] => {
+  const parsed = z.array(personaSchema).safeParse(JSON.parse(json));
+  if (!parsed.success) {
+    throw new Error(`Invalid persona file: ${parsed.error.issues[0]?.message ?? 'unknown format'}`);
+  }
+
+  const existingIds = new Set(loadPersonas().map(persona => persona.id));
+  // Without strictNullChecks zod infers every field as optional, hence the cast
+  const imported = parsed.data.map(persona => ({
+    ...persona,
+    id: persona.id && !existingIds.has(persona.id) ? persona.id : createPersonaId(),
+  }) as Persona);
+
+  saveUserPersonas([...loadUserPersonas(), ...imported]);
+  return loadPersonas();
+};
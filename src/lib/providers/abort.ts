@@ -0,0 +1,23 @@
+// The same error fetch rejects with when its signal fires, so every cancellation is handled alike.
+export const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
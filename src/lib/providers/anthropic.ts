@@ -0,0 +1,139 @@
+import { ProviderError, isRetryableStatus } from './errors';
+import { flattenToolTurns, groupTurns } from './history';
+import type { ChatMessage, ProviderAdapter, ProviderErrorBody } from './types';
+
+const API_BASE = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+// Streamed events carry their type in the payload as well as the `event:` line.
+interface AnthropicStreamEvent extends ProviderErrorBody {
+  type?: string;
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  // message_start nests usage in the message; message_delta carries it at the top level
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+// Anthropic rejects empty text blocks, so an image-only turn carries just its images.
+const toContentBlocks = (msg: ChatMessage) => [
+  ...(msg.images ?? []).map(image => ({
+    type: 'image',
+    source: { type: 'base64', media_type: image.mimeType, data: image.data },
+  })),
+  ...(msg.content || !msg.images?.length ? [{ type: 'text', text: msg.content }] : []),
+];
+
+const refusalError = () =>
+  new ProviderError('Claude declined to continue this response.', { category: 'safety' });
+
+const headers = (apiKey: string) => ({
+  'Content-Type': 'application/json',
+  'x-api-key': apiKey,
+  'anthropic-version': API_VERSION,
+  // Required for CORS when calling the API straight from the browser
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic Claude',
+  label: 'Anthropic (Claude)',
+  defaultModel: 'claude-3-5-haiku-latest',
+  keyPrefix: 'sk-ant-',
+  keyHelpUrl: 'https://console.anthropic.com/settings/keys',
+  keyHelpLabel: 'console.anthropic.com',
+  requiresApiKey: true,
+
+  buildRequest: ({ apiKey, model, system, messages, stream, ...params }) => ({
+    url: `${API_BASE}/messages`,
+    init: {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({
+        model,
+        ...(system && { system }),
+        messages: groupTurns(flattenToolTurns(messages), toContentBlocks).map(turn => ({
+          role: turn.role,
+          content: turn.parts,
+        })),
+        max_tokens: params.maxTokens,
+        // Anthropic caps temperature at 1 and has no presence/frequency penalties
+        temperature: Math.min(params.temperature, 1),
+        ...(params.topP !== 1 && { top_p: params.topP }),
+        ...(params.stopSequences.length > 0 && { stop_sequences: params.stopSequences }),
+        ...(stream && { stream: true }),
+      }),
+    },
+  }),
+
+  parseResponse: (data: AnthropicMessageResponse) => {
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    if (data.stop_reason === 'refusal' && !text) throw refusalError();
+    return text;
+  },
+
+  parseStreamEvent: (data: AnthropicStreamEvent) => {
+    if (data.type === 'error') {
+      // Errors such as overloaded_error can arrive mid-stream after a 200 response
+      throw anthropicAdapter.mapError(200, data);
+    }
+    if (data.type === 'message_delta' && data.delta?.stop_reason === 'refusal') {
+      throw refusalError();
+    }
+    if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+      return data.delta.text || '';
+    }
+    return '';
+  },
+
+  parseUsage: (data: AnthropicStreamEvent) => {
+    const usage = data.usage ?? data.message?.usage;
+    return usage ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens } : undefined;
+  },
+
+  mapError: (status, errorData) => {
+    const type = errorData.error?.type;
+    if (type === 'overloaded_error' || status === 529) {
+      return new ProviderError('Anthropic is temporarily overloaded. Please try again in a moment.', { status, retryable: true });
+    } else if (type === 'authentication_error' || status === 401) {
+      return new ProviderError('Invalid Anthropic API key. Please check your API key.', { status });
+    } else if (type === 'permission_error' || status === 403) {
+      return new ProviderError('Your Anthropic API key does not have permission to use this resource.', { status });
+    } else if (type === 'rate_limit_error' || status === 429) {
+      return new ProviderError('Rate limit exceeded. Please wait a moment and try again.', { status, retryable: true });
+    } else if (type === 'request_too_large' || status === 413) {
+      return new ProviderError('The conversation is too large for Anthropic to accept. Please start a new chat.', { status });
+    }
+    return new ProviderError(`Anthropic API Error: ${status} - ${errorData.error?.message || 'Unknown error'}`, {
+      status,
+      retryable: type === 'api_error' || isRetryableStatus(status),
+    });
+  },
+
+  listModels: async ({ apiKey }) => {
+    const response = await fetch(`${API_BASE}/models?limit=1000`, {
+      headers: headers(apiKey),
+    });
+    if (!response.ok) {
+      throw anthropicAdapter.mapError(response.status, await response.json().catch(() => ({})));
+    }
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id).sort();
+  },
+
+  validateKey: (apiKey) => apiKey.trim().startsWith('sk-ant-'),
+};
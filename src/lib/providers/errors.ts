@@ -0,0 +1,77 @@
+export type ErrorCategory = 'auth' | 'quota' | 'rate-limit' | 'network' | 'safety' | 'invalid-request' | 'server';
+
+// Short headline for each category, shown wherever a failure is surfaced
+export const ERROR_TITLES: Record<ErrorCategory, string> = {
+  auth: 'Authentication failed',
+  quota: 'Quota exceeded',
+  'rate-limit': 'Rate limited',
+  network: 'Network error',
+  safety: 'Blocked by safety filters',
+  'invalid-request': 'Request rejected',
+  server: 'Provider error',
+};
+
+export interface ProviderErrorOptions {
+  status?: number;
+  // Derived from the status when omitted
+  category?: ErrorCategory;
+  // Whether sending the same request again later may succeed
+  retryable?: boolean;
+  // Delay the provider asked for before retrying, in milliseconds
+  retryAfterMs?: number;
+}
+
+export const categoryForStatus = (status: number | undefined): ErrorCategory => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status && status >= 400 && status < 500) return 'invalid-request';
+  return 'server';
+};
+
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, { status, category, retryable = false, retryAfterMs }: ProviderErrorOptions = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.category = category ?? categoryForStatus(status);
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Normalizes anything thrown during a request so the UI can treat every failure alike.
+export const toProviderError = (error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  // fetch rejects with a TypeError when the host is unreachable or blocks CORS
+  if (error instanceof TypeError) {
+    return new ProviderError('Could not reach the provider. Check your connection and try again.', {
+      category: 'network',
+      retryable: false,
+    });
+  }
+  return new ProviderError(error instanceof Error ? error.message : String(error), { category: 'server' });
+};
+
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Parses protobuf-style durations such as Gemini's `"retryDelay": "37s"`.
+export const parseDuration = (value: string | undefined): number | undefined => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
@@ -0,0 +1,170 @@
+import { ProviderError, isRetryableStatus, parseDuration } from './errors';
+import { flattenToolTurns, groupTurns } from './history';
+import type { ChatMessage, ProviderAdapter, ToolSpec } from './types';
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+interface GeminiPart {
+  text?: string;
+  inline_data?: { mime_type: string; data: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiGenerateResponse {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// Each streamed chunk is a partial GenerateContentResponse, so both paths read text the same way.
+const readText = (data: GeminiGenerateResponse) => {
+  const blockReason = data.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ProviderError(`Gemini blocked the prompt (${blockReason}).`, { category: 'safety' });
+  }
+
+  const candidate = data.candidates?.[0];
+  if (SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new ProviderError(`Gemini stopped the response for safety reasons (${candidate.finishReason}).`, {
+      category: 'safety',
+    });
+  }
+
+  return (candidate?.content?.parts || []).map(part => part.text || '').join('');
+};
+
+const parseArguments = (json: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const toParts = (message: ChatMessage): GeminiPart[] => {
+  if (message.role === 'tool') {
+    return [{ functionResponse: { name: message.toolName, response: { content: message.content } } }];
+  }
+  const images = (message.images ?? []).map(image => ({
+    inline_data: { mime_type: image.mimeType, data: image.data },
+  }));
+  const calls = (message.toolCalls ?? []).map(call => ({
+    functionCall: { name: call.name, args: parseArguments(call.arguments) },
+  }));
+  // Gemini rejects empty text parts, but a turn needs at least one part
+  const text = message.content || (images.length + calls.length === 0) ? [{ text: message.content }] : [];
+  return [...images, ...text, ...calls];
+};
+
+const toContents = (messages: ChatMessage[]) =>
+  groupTurns(messages, toParts).map(turn => ({
+    role: turn.role === 'assistant' ? 'model' : 'user',
+    parts: turn.parts,
+  }));
+
+// Gemini rejects object schemas with no properties, so argument-less tools omit them
+const toFunctionDeclarations = (tools: ToolSpec[]) =>
+  tools.map(({ parameters, ...tool }) => ({
+    ...tool,
+    ...(Object.keys(parameters.properties ?? {}).length > 0 && { parameters }),
+  }));
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-1.5-flash-latest',
+  keyPrefix: 'AI',
+  keyHelpUrl: 'https://aistudio.google.com/app/apikey',
+  keyHelpLabel: 'Google AI Studio',
+  requiresApiKey: true,
+  maxStopSequences: 5,
+
+  buildRequest: ({ apiKey, model, system, messages, stream, tools, responseFormat, ...params }) => {
+    const url = stream
+      ? `${API_BASE}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+      : `${API_BASE}/models/${model}:generateContent?key=${apiKey}`;
+    // Gemini rejects function calling combined with a JSON response, so JSON mode goes without tools
+    const sendsTools = tools?.length > 0 && !responseFormat;
+    return {
+      url,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+          // Function turns need declared tools, so without any they go as text
+          contents: toContents(sendsTools ? messages : flattenToolTurns(messages)),
+          ...(sendsTools && { tools: [{ functionDeclarations: toFunctionDeclarations(tools) }] }),
+          generationConfig: {
+            temperature: params.temperature,
+            maxOutputTokens: params.maxTokens,
+            ...(params.topP !== 1 && { topP: params.topP }),
+            // Not every Gemini model accepts penalties, so they are only sent when set
+            ...(params.presencePenalty !== 0 && { presencePenalty: params.presencePenalty }),
+            ...(params.frequencyPenalty !== 0 && { frequencyPenalty: params.frequencyPenalty }),
+            ...(params.stopSequences.length > 0 && { stopSequences: params.stopSequences.slice(0, geminiAdapter.maxStopSequences) }),
+            ...(responseFormat && { responseMimeType: 'application/json', responseSchema: responseFormat.schema }),
+          }
+        }),
+      },
+    };
+  },
+
+  parseResponse: readText,
+
+  parseStreamEvent: readText,
+
+  // Calls arrive whole, never split across chunks, and carry no id
+  parseToolCalls: (data: GeminiGenerateResponse) =>
+    (data.candidates?.[0]?.content?.parts || [])
+      .filter(part => part.functionCall)
+      .map(part => ({ name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) })),
+
+  // Streamed chunks carry running totals, so the last one wins
+  parseUsage: (data: GeminiGenerateResponse) => data.usageMetadata ? {
+    promptTokens: data.usageMetadata.promptTokenCount,
+    completionTokens: data.usageMetadata.candidatesTokenCount,
+  } : undefined,
+
+  mapError: (status, errorData) => {
+    // Quota and rate-limit responses carry a RetryInfo detail saying how long to wait
+    const retryInfo = errorData.error?.details?.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'));
+    const retryAfterMs = parseDuration(retryInfo?.retryDelay);
+
+    if (status === 401 || status === 403) {
+      return new ProviderError('Invalid Gemini API key. Please check your API key.', { status });
+    } else if (status === 429) {
+      return new ProviderError('Rate limit exceeded. Please wait a moment and try again.', {
+        status,
+        retryable: true,
+        retryAfterMs,
+      });
+    }
+    return new ProviderError(`Gemini API Error: ${status} - ${errorData.error?.message || 'Unknown error'}`, {
+      status,
+      retryable: isRetryableStatus(status),
+      retryAfterMs,
+    });
+  },
+
+  listModels: async ({ apiKey }) => {
+    const response = await fetch(`${API_BASE}/models?key=${apiKey}`);
+    if (!response.ok) {
+      throw geminiAdapter.mapError(response.status, await response.json().catch(() => ({})));
+    }
+    const data = await response.json();
+    return (data.models || [])
+      .filter((model: { supportedGenerationMethods?: string[] }) =>
+        model.supportedGenerationMethods?.includes('generateContent'))
+      .map((model: { name: string }) => model.name.replace(/^models\//, ''))
+      .sort();
+  },
+
+  validateKey: (apiKey) => apiKey.trim().startsWith('AI'),
+};
@@ -0,0 +1,42 @@
+import type { ChatMessage } from './types';
+
+export interface Turn<Part> {
+  role: 'user' | 'assistant';
+  parts: Part[];
+}
+
+// Providers with strict turn rules (Gemini, Anthropic) want alternating turns that
+// open with a user turn, so consecutive same-role messages are merged and any
+// leading assistant turns dropped. Tool results travel on the user side.
+export const groupTurns = <Part>(messages: ChatMessage[], toParts: (message: ChatMessage) => Part[]): Turn<Part>[] => {
+  const turns: Turn<Part>[] = [];
+
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const previous = turns[turns.length - 1];
+
+    if (!previous && role === 'assistant') continue;
+
+    if (previous?.role === role) {
+      previous.parts.push(...toParts(message));
+    } else {
+      turns.push({ role, parts: toParts(message) });
+    }
+  }
+
+  return turns;
+};
+
+// For providers without tool calling, earlier calls and results are spelled out
+// as text so the model still knows what happened.
+export const flattenToolTurns = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'user', content: `[Result of ${message.toolName}]\n${message.content}` };
+    }
+    if (message.toolCalls?.length) {
+      const calls = message.toolCalls.map(call => `[Called ${call.name} with ${call.arguments || '{}'}]`);
+      return { role: 'assistant', content: [message.content, ...calls].filter(Boolean).join('\n') };
+    }
+    return message;
+  });
@@ -0,0 +1,188 @@
+import { customAdapter, openaiAdapter } from './openai';
+import { geminiAdapter } from './gemini';
+import { anthropicAdapter } from './anthropic';
+import { ollamaAdapter } from './ollama';
+import { mockAdapter } from './mock';
+import { isAbortError } from './abort';
+import { parseRetryAfter, ProviderError, toProviderError } from './errors';
+import { readJsonLines, readServerSentEvents } from './stream';
+import type {
+  AIProvider,
+  ChatRequest,
+  ChatResult,
+  ProviderAdapter,
+  TokenUsage,
+  ToolCall,
+  ToolCallDelta,
+} from './types';
+export { abortError, isAbortError, sleep } from './abort';
+export { ERROR_TITLES, ProviderError, toProviderError, type ErrorCategory } from './errors';
+
+export {
+  DEFAULT_MOCK_SETTINGS,
+  loadMockSettings,
+  MOCK_BEHAVIORS,
+  saveMockSettings,
+  type MockBehavior,
+  type MockSettings,
+} from './mock';
+
+export type {
+  AIProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  GenerationParams,
+  ImagePart,
+  JsonSchema,
+  ProviderAdapter,
+  ProviderConnection,
+  ProviderErrorBody,
+  ProviderRequest,
+  PullProgress,
+  ResponseFormat,
+  TokenUsage,
+  ToolCall,
+  ToolSpec,
+} from './types';
+
+// Adding a provider means writing an adapter module and listing it here.
+const registry: Record<AIProvider, ProviderAdapter> = {
+  openai: openaiAdapter,
+  gemini: geminiAdapter,
+  anthropic: anthropicAdapter,
+  custom: customAdapter,
+  ollama: ollamaAdapter,
+  mock: mockAdapter,
+};
+
+export const getProvider = (id: AIProvider): ProviderAdapter => registry[id];
+
+export const listProviders = (): ProviderAdapter[] => Object.values(registry);
+
+export const isProvider = (id: string | null): id is AIProvider =>
+  !!id && Object.prototype.hasOwnProperty.call(registry, id);
+
+const STREAM_DONE = '[DONE]';
+
+export interface ChatOptions {
+  // Called with the accumulated text after every streamed delta
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+const post = async (adapter: ProviderAdapter, request: ChatRequest, signal?: AbortSignal): Promise<Response> => {
+  const { url, init } = adapter.buildRequest(request);
+  let response: Response;
+  try {
+    response = await (adapter.transport ?? fetch)(url, { ...init, signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toProviderError(error);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error = adapter.mapError(response.status, errorData);
+    error.retryAfterMs ??= parseRetryAfter(response.headers.get('retry-after'));
+    throw error;
+  }
+
+  return response;
+};
+
+// Later events only fill in or update the counts they carry.
+const mergeUsage = (usage: TokenUsage | undefined, update: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!update) return usage;
+  return {
+    promptTokens: update.promptTokens ?? usage?.promptTokens,
+    completionTokens: update.completionTokens ?? usage?.completionTokens,
+  };
+};
+
+type PartialToolCall = ToolCall & { index?: number };
+
+// Appends complete calls and stitches indexed fragments onto the call they belong to.
+const mergeToolCalls = (calls: PartialToolCall[], deltas: ToolCallDelta[] = []) => {
+  for (const delta of deltas) {
+    const existing = delta.index === undefined ? undefined : calls.find(call => call.index === delta.index);
+    if (existing) {
+      existing.id ||= delta.id ?? '';
+      existing.name ||= delta.name ?? '';
+      existing.arguments += delta.arguments ?? '';
+    } else {
+      calls.push({ index: delta.index, id: delta.id ?? '', name: delta.name ?? '', arguments: delta.arguments ?? '' });
+    }
+  }
+  return calls;
+};
+
+// Providers that do not number their calls get ids so results can be matched up.
+const finishToolCalls = (calls: PartialToolCall[]): ToolCall[] | undefined =>
+  calls.length > 0
+    ? calls.map(({ index: _index, ...call }, position) => ({ ...call, id: call.id || `call-${position + 1}` }))
+    : undefined;
+
+export const sendChat = async (
+  adapter: ProviderAdapter,
+  request: ChatRequest,
+  { signal }: ChatOptions = {}
+): Promise<ChatResult> => {
+  const response = await post(adapter, { ...request, stream: false }, signal);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ProviderError('The provider sent a response that could not be parsed.', { category: 'server' });
+  }
+  return {
+    text: adapter.parseResponse(data),
+    usage: adapter.parseUsage?.(data),
+    toolCalls: finishToolCalls(mergeToolCalls([], adapter.parseToolCalls?.(data))),
+  };
+};
+
+// Streams the reply, reporting progress through onText. Resolves with the full
+// text once the stream ends or the `[DONE]` sentinel arrives; rejects with an
+// AbortError when the signal fires.
+export const streamChat = async (
+  adapter: ProviderAdapter,
+  request: ChatRequest,
+  { onText, signal }: ChatOptions = {}
+): Promise<ChatResult> => {
+  if (!adapter.parseStreamEvent) {
+    const result = await sendChat(adapter, request, { signal });
+    onText?.(result.text);
+    return result;
+  }
+
+  const response = await post(adapter, { ...request, stream: true }, signal);
+  const events = adapter.streamFormat === 'ndjson' ? readJsonLines(response) : readServerSentEvents(response);
+  let text = '';
+  let usage: TokenUsage | undefined;
+  const toolCalls: PartialToolCall[] = [];
+
+  for await (const event of events) {
+    if (event.trim() === STREAM_DONE) break;
+    if (!event.trim()) continue;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(event);
+    } catch {
+      // Skipping the event would silently cut text out of the reply
+      throw new ProviderError('The provider sent a streamed event that could not be parsed.', { category: 'server' });
+    }
+
+    usage = mergeUsage(usage, adapter.parseUsage?.(data));
+    mergeToolCalls(toolCalls, adapter.parseToolCalls?.(data));
+    const delta = adapter.parseStreamEvent(data);
+    if (delta) {
+      text += delta;
+      onText?.(text);
+    }
+  }
+
+  return { text, usage, toolCalls: finishToolCalls(toolCalls) };
+};
@@ -0,0 +1,148 @@
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+import { sleep } from './abort';
+import { createOpenAICompatibleAdapter } from './openai';
+import type { ProviderAdapter } from './types';
+
+// Each "model" is a scripted behaviour, so every error path can be reproduced by picking one.
+export const MOCK_BEHAVIORS = [
+  'echo',
+  'scripted',
+  'error-401',
+  'error-429',
+  'error-500',
+  'timeout',
+  'malformed-json',
+] as const;
+
+export type MockBehavior = (typeof MOCK_BEHAVIORS)[number];
+
+export interface MockSettings {
+  // Delay before the first byte of any response
+  latencyMs: number;
+  // Delay between streamed words
+  chunkDelayMs: number;
+  // How long the `timeout` behaviour hangs before failing like an unreachable host
+  timeoutMs: number;
+  // Replies used in turn by the `scripted` behaviour
+  script: string[];
+}
+
+const MOCK_SETTINGS_KEY = 'mock-settings';
+
+// Requests go to this origin but never leave the browser
+const MOCK_BASE_URL = 'mock://local/v1';
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = {
+  latencyMs: 400,
+  chunkDelayMs: 40,
+  timeoutMs: 10000,
+  script: [
+    'Hello! This is a scripted reply from the mock provider.',
+    'Here is a second scripted reply. Every request gets the next one in order.',
+    'That is the end of the script, so the next reply starts over from the top.',
+  ],
+};
+
+export const loadMockSettings = (): MockSettings => loadJsonSettings(MOCK_SETTINGS_KEY, DEFAULT_MOCK_SETTINGS);
+
+export const saveMockSettings = (settings: MockSettings) => saveJson(MOCK_SETTINGS_KEY, settings);
+
+interface MockChatBody {
+  model?: string;
+  stream?: boolean;
+  messages?: { role: string; content: string }[];
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const replyFor = (behavior: string, messages: MockChatBody['messages'], settings: MockSettings) => {
+  const turns = messages ?? [];
+  if (behavior === 'scripted' && settings.script.length > 0) {
+    // Indexed by the number of earlier replies so a given transcript always gets the same answer
+    const replies = turns.filter(msg => msg.role === 'assistant').length;
+    return settings.script[replies % settings.script.length];
+  }
+  const lastUser = [...turns].reverse().find(msg => msg.role === 'user');
+  return `You said: ${lastUser?.content ?? ''}`;
+};
+
+// Streams the reply word by word in the OpenAI chunk format, ending with a usage chunk.
+const streamResponse = (text: string, usage: object, settings: MockSettings, signal?: AbortSignal | null) => {
+  const encoder = new TextEncoder();
+  const words = text.match(/\S+\s*/g) ?? [];
+  let index = 0;
+
+  return new Response(new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index > 0) await sleep(settings.chunkDelayMs, signal);
+      if (index < words.length) {
+        const chunk = { choices: [{ delta: { content: words[index] }, finish_reason: null }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        index++;
+        return;
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\ndata: [DONE]\n\n`));
+      controller.close();
+    },
+  }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const mockTransport = async (url: string, init: RequestInit): Promise<Response> => {
+  const settings = loadMockSettings();
+  const signal = init.signal;
+  const body: MockChatBody = JSON.parse(typeof init.body === 'string' ? init.body : '{}');
+  const behavior = body.model || 'echo';
+
+  if (behavior === 'timeout') {
+    await sleep(settings.timeoutMs, signal);
+    // fetch rejects with a TypeError when a host never answers
+    throw new TypeError('Failed to fetch');
+  }
+
+  await sleep(settings.latencyMs, signal);
+
+  switch (behavior) {
+    case 'error-401':
+      return jsonResponse({ error: { message: 'Incorrect API key provided.', code: 'invalid_api_key' } }, 401);
+    case 'error-429':
+      return jsonResponse({ error: { message: 'Rate limit reached.', code: 'rate_limit_exceeded' } }, 429, { 'Retry-After': '2' });
+    case 'error-500':
+      return jsonResponse({ error: { message: 'The server had an error while processing your request.' } }, 500);
+    case 'malformed-json':
+      return new Response(body.stream ? 'data: {"choices": [{"delta": {"content": \n\n' : '{"choices": [', {
+        status: 200,
+        headers: { 'Content-Type': body.stream ? 'text/event-stream' : 'application/json' },
+      });
+  }
+
+  const text = replyFor(behavior, body.messages, settings);
+  const usage = {
+    prompt_tokens: countTokens((body.messages ?? []).map(msg => msg.content).join('\n')),
+    completion_tokens: countTokens(text),
+  };
+  if (body.stream) {
+    return streamResponse(text, usage, settings, signal);
+  }
+  return jsonResponse({ choices: [{ message: { content: text }, finish_reason: 'stop' }], usage });
+};
+
+// Answers locally in the OpenAI format, so the real parsing, retry and error handling all run.
+export const mockAdapter: ProviderAdapter = {
+  ...createOpenAICompatibleAdapter({
+    id: 'mock',
+    name: 'Mock',
+    label: 'Mock (offline)',
+    defaultModel: 'echo',
+    keyPrefix: '',
+    keyHelpUrl: '',
+    keyHelpLabel: '',
+    requiresApiKey: false,
+    defaultBaseUrl: MOCK_BASE_URL,
+    streamUsage: true,
+  }),
+  transport: mockTransport,
+  listModels: async () => [...MOCK_BEHAVIORS],
+};
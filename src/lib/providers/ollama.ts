@@ -0,0 +1,142 @@
+import { isAbortError } from './abort';
+import { ProviderError } from './errors';
+import { readJsonLines } from './stream';
+import type { ProviderAdapter, ProviderErrorBody, PullProgress } from './types';
+import { flattenToolTurns } from './history';
+
+const API_BASE = 'http://localhost:11434';
+
+// Ollama reports errors as a bare string rather than an OpenAI-style object
+interface OllamaError {
+  error?: string;
+}
+
+interface OllamaChatResponse extends OllamaError {
+  message?: { content?: string };
+  // Only present on the final message of a reply
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const unreachableError = (base: string) =>
+  new ProviderError(`Could not reach Ollama at ${base}. Make sure it is running and that OLLAMA_ORIGINS allows this page.`, {
+    category: 'network',
+  });
+
+// fetch rejects with a TypeError when nothing is listening on the port
+const request = async (baseUrl: string | undefined, path: string, init?: RequestInit) => {
+  const base = baseUrl || API_BASE;
+  try {
+    return await fetch(`${base}${path}`, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw unreachableError(base);
+  }
+};
+
+const toErrorBody = (data: OllamaError | ProviderErrorBody): ProviderErrorBody =>
+  typeof data.error === 'string' ? { error: { message: data.error } } : (data as ProviderErrorBody);
+
+export const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  name: 'Ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llama3.2',
+  keyPrefix: '',
+  keyHelpUrl: 'https://ollama.com/download',
+  keyHelpLabel: 'ollama.com',
+  requiresApiKey: false,
+  streamFormat: 'ndjson',
+
+  buildRequest: ({ baseUrl, model, system, messages, stream, responseFormat, ...params }) => ({
+    url: `${baseUrl || API_BASE}/api/chat`,
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          ...flattenToolTurns(messages).map(msg => ({
+            role: msg.role,
+            content: msg.content,
+            ...(msg.images?.length && { images: msg.images.map(image => image.data) }),
+          })),
+        ],
+        stream: !!stream,
+        ...(responseFormat && { format: responseFormat.schema }),
+        options: {
+          temperature: params.temperature,
+          num_predict: params.maxTokens,
+          top_p: params.topP,
+          presence_penalty: params.presencePenalty,
+          frequency_penalty: params.frequencyPenalty,
+          ...(params.stopSequences.length > 0 && { stop: params.stopSequences }),
+        },
+      }),
+    },
+  }),
+
+  parseResponse: (data: OllamaChatResponse) => data.message?.content || '',
+
+  parseStreamEvent: (data: OllamaChatResponse) => {
+    if (data.error) {
+      throw ollamaAdapter.mapError(500, toErrorBody(data));
+    }
+    return data.message?.content || '';
+  },
+
+  parseUsage: (data: OllamaChatResponse) => data.eval_count !== undefined ? {
+    promptTokens: data.prompt_eval_count,
+    completionTokens: data.eval_count,
+  } : undefined,
+
+  mapError: (status, errorData) => {
+    const message = toErrorBody(errorData).error?.message;
+    if (status === 404) {
+      return new ProviderError(`${message || 'Model not found'}. Pull it first from the Ollama setup screen.`, { status });
+    }
+    // A local server failing is rarely transient, so Ollama errors are not retried
+    return new ProviderError(`Ollama Error: ${status} - ${message || 'Unknown error'}`, { status });
+  },
+
+  listModels: async ({ baseUrl }) => {
+    const response = await request(baseUrl, '/api/tags');
+    if (!response.ok) {
+      throw ollamaAdapter.mapError(response.status, await response.json().catch(() => ({})));
+    }
+    const data = await response.json();
+    return (data.models || []).map((model: { name: string }) => model.name).sort();
+  },
+
+  validateKey: () => true,
+
+  pullModel: async ({ baseUrl }, model, onProgress, signal) => {
+    const response = await request(baseUrl, '/api/pull', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, stream: true }),
+      signal,
+    });
+    if (!response.ok) {
+      throw ollamaAdapter.mapError(response.status, await response.json().catch(() => ({})));
+    }
+
+    for await (const line of readJsonLines(response)) {
+      let progress: PullProgress & OllamaError;
+      try {
+        progress = JSON.parse(line);
+      } catch {
+        // A garbled progress line is not worth failing a multi-gigabyte download over
+        console.warn('Skipping unreadable Ollama pull progress:', line);
+        continue;
+      }
+      if (progress.error) {
+        throw new Error(`Could not pull ${model}: ${progress.error}`);
+      }
+      onProgress(progress);
+    }
+  },
+};
@@ -0,0 +1,232 @@
+import { ProviderError, isRetryableStatus } from './errors';
+import { flattenToolTurns } from './history';
+import type { ChatMessage, ProviderAdapter, ProviderErrorBody, ResponseFormat } from './types';
+
+// Overridable so the client can be pointed at a local stub server during development.
+const API_BASE = import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1';
+
+interface OpenAIUsage {
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+interface OpenAIToolCall {
+  // Only present on streamed fragments
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIChatResponse extends OpenAIUsage {
+  choices?: { message?: { content?: string; tool_calls?: OpenAIToolCall[] }; finish_reason?: string }[];
+}
+
+interface OpenAIChatChunk extends OpenAIUsage, ProviderErrorBody {
+  choices?: { delta?: { content?: string; tool_calls?: OpenAIToolCall[] }; finish_reason?: string }[];
+}
+
+const checkContentFilter = (finishReason: string | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new ProviderError('The response was blocked by the content filter.', { category: 'safety' });
+  }
+};
+
+type OpenAICompatibleOptions = Pick<
+  ProviderAdapter,
+  'id' | 'name' | 'label' | 'defaultModel' | 'keyPrefix' | 'keyHelpUrl' | 'keyHelpLabel' | 'requiresApiKey' | 'customEndpoints'
+> & {
+  defaultBaseUrl: string;
+  // Asks for a final usage chunk when streaming; not every compatible server accepts it
+  streamUsage?: boolean;
+  // Sends `tools` and tool turns; compatible servers without function calling get them as text
+  tools?: boolean;
+  // Sends `response_format` when JSON output is requested
+  structuredOutput?: boolean;
+  // Sends attached images as `image_url` parts
+  images?: boolean;
+};
+
+// Schemas arrived with gpt-4o-2024-08-06; older models only have plain JSON mode and read the
+// schema from the prompt. The first gpt-4 snapshots and the o1 previews support neither.
+const JSON_SCHEMA_MODELS = ['gpt-4o', 'chatgpt-4o', 'gpt-4.1', 'gpt-5', 'o1', 'o3', 'o4'];
+const PLAIN_JSON_MODELS = ['gpt-4o-2024-05-13'];
+const NO_JSON_MODELS = /^(gpt-4(-0314|-0613|-32k.*)?|o1-mini.*|o1-preview.*)$/;
+
+const toResponseFormat = (model: string, responseFormat: ResponseFormat) => {
+  if (NO_JSON_MODELS.test(model)) return undefined;
+  const acceptsSchema = JSON_SCHEMA_MODELS.some(prefix => model.startsWith(prefix))
+    && !PLAIN_JSON_MODELS.some(prefix => model.startsWith(prefix));
+  return acceptsSchema ? { type: 'json_schema', json_schema: responseFormat } : { type: 'json_object' };
+};
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Images turn the content into a list of parts; plain text stays a string for older servers.
+const toOpenAIContent = (msg: ChatMessage) =>
+  msg.images?.length
+    ? [
+        ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+        ...msg.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+      ]
+    : msg.content;
+
+const toOpenAIMessage = (msg: ChatMessage) => {
+  if (msg.role === 'tool') {
+    return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+  }
+  return {
+    role: msg.role,
+    content: toOpenAIContent(msg),
+    ...(msg.toolCalls?.length && {
+      tool_calls: msg.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    }),
+  };
+};
+
+// Builds an adapter for any server speaking the OpenAI chat completions protocol.
+export const createOpenAICompatibleAdapter = ({
+  defaultBaseUrl,
+  streamUsage,
+  tools: supportsTools,
+  structuredOutput,
+  images: supportsImages,
+  ...options
+}: OpenAICompatibleOptions): ProviderAdapter => {
+  const headers = (apiKey: string) => ({
+    'Content-Type': 'application/json',
+    ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+  });
+
+  const adapter: ProviderAdapter = {
+    ...options,
+    maxStopSequences: 4,
+
+    buildRequest: ({ apiKey, baseUrl, model, system, messages, stream, tools, responseFormat, ...params }) => ({
+      url: `${trimBaseUrl(baseUrl || defaultBaseUrl)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: headers(apiKey),
+        body: JSON.stringify({
+          model,
+          messages: [
+            ...(system ? [{ role: 'system', content: system }] : []),
+            // Tool turns without tool definitions are rejected, so they go as text whenever no tools are sent
+            ...(supportsTools && tools?.length ? messages : flattenToolTurns(messages))
+              .map(msg => (supportsImages ? msg : { ...msg, images: undefined }))
+              .map(toOpenAIMessage),
+          ],
+          max_tokens: params.maxTokens,
+          temperature: params.temperature,
+          // Defaults are left out so stricter compatible servers never see unsupported fields
+          ...(params.topP !== 1 && { top_p: params.topP }),
+          ...(params.presencePenalty !== 0 && { presence_penalty: params.presencePenalty }),
+          ...(params.frequencyPenalty !== 0 && { frequency_penalty: params.frequencyPenalty }),
+          ...(params.stopSequences.length > 0 && { stop: params.stopSequences.slice(0, adapter.maxStopSequences) }),
+          ...(stream && { stream: true }),
+          ...(stream && streamUsage && { stream_options: { include_usage: true } }),
+          ...(supportsTools && tools?.length && {
+            tools: tools.map(tool => ({ type: 'function', function: tool })),
+          }),
+          ...(structuredOutput && responseFormat && { response_format: toResponseFormat(model, responseFormat) }),
+        }),
+      },
+    }),
+
+    parseResponse: (data: OpenAIChatResponse) => {
+      checkContentFilter(data.choices?.[0]?.finish_reason);
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    parseStreamEvent: (data: OpenAIChatChunk) => {
+      if (data.error) {
+        // Compatible servers report failures as a data event after the 200 response
+        throw adapter.mapError(200, data);
+      }
+      checkContentFilter(data.choices?.[0]?.finish_reason);
+      return data.choices?.[0]?.delta?.content || '';
+    },
+
+    ...(supportsTools && {
+      parseToolCalls: (data: OpenAIChatResponse & OpenAIChatChunk) => {
+        const choice = data.choices?.[0];
+        return (choice?.message?.tool_calls ?? choice?.delta?.tool_calls ?? []).map(call => ({
+          index: call.index,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        }));
+      },
+    }),
+
+    parseUsage: (data: OpenAIUsage) => data.usage ? {
+      promptTokens: data.usage.prompt_tokens,
+      completionTokens: data.usage.completion_tokens,
+    } : undefined,
+
+    mapError: (status, errorData) => {
+      if (status === 429 && errorData.error?.code === 'insufficient_quota') {
+        return new ProviderError(`Your ${options.name} account has exceeded its quota. Please check your billing details.`, {
+          status,
+          category: 'quota',
+        });
+      } else if (status === 401) {
+        return new ProviderError(`Invalid ${options.name} API key. Please check your API key.`, { status });
+      } else if (status === 429) {
+        return new ProviderError('Rate limit exceeded. Please wait a moment and try again.', { status, retryable: true });
+      }
+      return new ProviderError(`${options.name} API Error: ${status} - ${errorData.error?.message || 'Unknown error'}`, {
+        status,
+        retryable: isRetryableStatus(status),
+      });
+    },
+
+    listModels: async ({ apiKey, baseUrl }) => {
+      const response = await fetch(`${trimBaseUrl(baseUrl || defaultBaseUrl)}/models`, {
+        headers: headers(apiKey),
+      });
+      if (!response.ok) {
+        throw adapter.mapError(response.status, await response.json().catch(() => ({})));
+      }
+      const data = await response.json();
+      return (data.data || []).map((model: { id: string }) => model.id).sort();
+    },
+
+    validateKey: (apiKey) => !options.keyPrefix || apiKey.trim().startsWith(options.keyPrefix),
+  };
+
+  return adapter;
+};
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  name: 'OpenAI',
+  label: 'OpenAI (GPT)',
+  defaultModel: 'gpt-3.5-turbo',
+  keyPrefix: 'sk-',
+  keyHelpUrl: 'https://platform.openai.com/api-keys',
+  keyHelpLabel: 'platform.openai.com',
+  requiresApiKey: true,
+  defaultBaseUrl: API_BASE,
+  streamUsage: true,
+  tools: true,
+  structuredOutput: true,
+  images: true,
+});
+
+// Endpoint, key and model come from the user's saved custom endpoints.
+export const customAdapter = createOpenAICompatibleAdapter({
+  id: 'custom',
+  name: 'Custom Endpoint',
+  label: 'Custom (OpenAI-compatible)',
+  defaultModel: '',
+  keyPrefix: '',
+  keyHelpUrl: 'https://platform.openai.com/docs/api-reference/chat',
+  keyHelpLabel: 'the OpenAI chat completions reference',
+  requiresApiKey: false,
+  customEndpoints: true,
+  defaultBaseUrl: 'http://localhost:8080/v1',
+  images: true,
+});
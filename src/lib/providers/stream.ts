@@ -0,0 +1,73 @@
+// Reads a `text/event-stream` body and yields the payload of every `data:` event.
+// Multi-line data fields are joined with newlines as the SSE spec requires.
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const flush = () => {
+    const data = dataLines.join('\n');
+    dataLines = [];
+    return data;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + (buffer[newlineIndex] === '\r' ? 2 : 1));
+
+        if (line === '') {
+          if (dataLines.length > 0) yield flush();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (buffer.startsWith('data:')) {
+      dataLines.push(buffer.slice(5).replace(/^ /, ''));
+    }
+    if (dataLines.length > 0) yield flush();
+  } finally {
+    // Closes the connection when the consumer stops early, e.g. on a `[DONE]` sentinel.
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+// Reads a newline-delimited JSON body (as used by Ollama) and yields one raw line per event.
+export async function* readJsonLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+
+      if (done) break;
+    }
+
+    if (buffer.trim()) yield buffer;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
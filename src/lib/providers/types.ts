@@ -0,0 +1,157 @@
+import type { ProviderError } from './errors';
+
+export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'custom' | 'ollama' | 'mock';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments exactly as the model produced them
+  arguments: string;
+}
+
+// A piece of a tool call. Streamed pieces sharing an index belong to one call;
+// pieces without an index are complete calls.
+export interface ToolCallDelta {
+  index?: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ImagePart {
+  mimeType: string;
+  // Base64 without the `data:` URL prefix
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  // Attached to user turns; adapters without vision support leave them out
+  images?: ImagePart[];
+  // Calls requested by an assistant turn
+  toolCalls?: ToolCall[];
+  // The call a tool turn answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// The JSON Schema subset that both OpenAI and Gemini accept for tool parameters
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+}
+
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+// Asks for a reply that is a single JSON value matching the schema
+export interface ResponseFormat {
+  // Letters, digits, underscores and dashes only, as OpenAI requires
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface ProviderConnection {
+  apiKey: string;
+  // Overrides the adapter's built-in endpoint, e.g. for self-hosted servers
+  baseUrl?: string;
+}
+
+export interface GenerationParams {
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+  stopSequences: string[];
+}
+
+export interface ChatRequest extends ProviderConnection, GenerationParams {
+  model: string;
+  system?: string;
+  messages: ChatMessage[];
+  stream?: boolean;
+  // Only sent by adapters that support tool calling
+  tools?: ToolSpec[];
+  // Enforced by adapters that support it; the others rely on the system prompt
+  responseFormat?: ResponseFormat;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface ChatResult {
+  text: string;
+  // Token counts as reported by the provider, when it reports them
+  usage?: TokenUsage;
+  // Set when the model wants tools run before it answers
+  toolCalls?: ToolCall[];
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ProviderErrorBody {
+  error?: {
+    code?: string | number;
+    message?: string;
+    status?: string;
+    type?: string;
+    details?: { '@type'?: string; retryDelay?: string; reason?: string }[];
+  };
+}
+
+export interface PullProgress {
+  status: string;
+  completed?: number;
+  total?: number;
+}
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  name: string;
+  label: string;
+  defaultModel: string;
+  keyPrefix: string;
+  keyHelpUrl: string;
+  keyHelpLabel: string;
+  requiresApiKey: boolean;
+  // When set, base URL, key and model are taken from a saved custom endpoint
+  customEndpoints?: boolean;
+  buildRequest: (request: ChatRequest) => ProviderRequest;
+  parseResponse: (data: unknown) => string;
+  // Present on adapters that can stream; returns the text delta carried by one event.
+  parseStreamEvent?: (data: unknown) => string;
+  // Reads token counts from a response or stream event; streamed values are merged
+  parseUsage?: (data: unknown) => TokenUsage | undefined;
+  // Present on adapters that support tool calling; reads calls from a response or stream event
+  parseToolCalls?: (data: unknown) => ToolCallDelta[];
+  // Wire format of streamed replies; defaults to server-sent events
+  streamFormat?: 'sse' | 'ndjson';
+  // Stop sequences past this many are not sent; unset when the API has no limit
+  maxStopSequences?: number;
+  mapError: (status: number, errorData: ProviderErrorBody) => ProviderError;
+  listModels: (connection: ProviderConnection) => Promise<string[]>;
+  validateKey: (apiKey: string) => boolean;
+  // Stands in for fetch so an adapter can answer without touching the network
+  transport?: (url: string, init: RequestInit) => Promise<Response>;
+  // Present on local runtimes that can download models on demand
+  pullModel?: (
+    connection: ProviderConnection,
+    model: string,
+    onProgress: (progress: PullProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<void>;
+}
@@ -0,0 +1,163 @@
+import {
+  getProvider,
+  isAbortError,
+  streamChat,
+  toProviderError,
+  type AIProvider,
+  type ChatRequest,
+  type ChatResult,
+  type ProviderConnection,
+  type ToolCall,
+  type ToolSpec,
+} from '@/lib/providers';
+import type { FailedAttempt, Message } from '@/lib/chat';
+import { shouldFallBack } from '@/lib/fallback';
+import { withRetry, type RetryInfo, type RetryPolicy } from '@/lib/retry';
+import { structuredOutputInstruction, toResponseFormat, type OutputSchema } from '@/lib/structured';
+import { recordUsage, toMessageUsage, type MessageUsage } from '@/lib/usage';
+
+// Tool call → result → reply rounds allowed per prompt before the model must answer without tools
+export const MAX_TOOL_ROUNDS = 5;
+
+const TOOL_LIMIT_INSTRUCTION =
+  'The tool call limit for this reply has been reached. Answer with the tool results you already have.';
+
+export interface ReplyTarget {
+  provider: AIProvider;
+  model: string;
+  connection: ProviderConnection;
+}
+
+export interface PreparedRequest {
+  request: ChatRequest;
+  promptTokens: number;
+}
+
+export interface ReplyFeatures {
+  tools: ToolSpec[];
+  outputSchema: OutputSchema | null;
+  // Set on the round after the tool limit, which must answer from the results so far
+  toolLimitReached?: boolean;
+}
+
+// Adds the enabled tools and the structured output schema to a request, for adapters that can use them.
+export const applyReplyFeatures = (
+  request: ChatRequest,
+  provider: AIProvider,
+  { tools, outputSchema, toolLimitReached }: ReplyFeatures
+): ChatRequest => {
+  const instructions = [
+    request.system,
+    toolLimitReached && TOOL_LIMIT_INSTRUCTION,
+    outputSchema && structuredOutputInstruction(outputSchema),
+  ].filter(Boolean);
+  return {
+    ...request,
+    system: instructions.join('\n\n') || undefined,
+    ...(!toolLimitReached && getProvider(provider).parseToolCalls && tools.length > 0 && { tools }),
+    ...(outputSchema && { responseFormat: toResponseFormat(outputSchema) }),
+  };
+};
+
+interface StreamReplyOptions {
+  // Tried in order; later targets only answer when earlier ones fail before any text arrives
+  targets: ReplyTarget[];
+  prepare: (target: ReplyTarget) => PreparedRequest;
+  retryPolicy: RetryPolicy;
+  signal: AbortSignal;
+  onText: (text: string) => void;
+  onRetry: (info: RetryInfo) => void;
+  // Called as each target is tried, so a failure can be put down to the right provider
+  onAttempt?: (target: ReplyTarget) => void;
+}
+
+export interface StreamedReply {
+  result: ChatResult;
+  usage: MessageUsage;
+  failedAttempts: FailedAttempt[];
+}
+
+// Streams one reply with retries, moving down the fallback chain while providers fail before any text arrives.
+export const streamReply = async ({
+  targets,
+  prepare,
+  retryPolicy,
+  signal,
+  onText,
+  onRetry,
+  onAttempt,
+}: StreamReplyOptions): Promise<StreamedReply> => {
+  const failedAttempts: FailedAttempt[] = [];
+  let streamedText = '';
+
+  for (const [index, target] of targets.entries()) {
+    onAttempt?.(target);
+    const { request, promptTokens } = prepare(target);
+    const startedAt = Date.now();
+    const recordAttempt = (completionText: string, result?: ChatResult) =>
+      recordUsage(toMessageUsage(result?.usage, {
+        provider: target.provider,
+        model: target.model,
+        latencyMs: Date.now() - startedAt,
+        promptTokens,
+        completionText,
+      }));
+
+    let result: ChatResult;
+    try {
+      result = await withRetry(() => streamChat(getProvider(target.provider), request, {
+        signal,
+        onText: (text) => {
+          streamedText = text;
+          onText(text);
+        },
+      }), {
+        policy: retryPolicy,
+        signal,
+        // Retrying after text has streamed would duplicate the partial reply
+        canRetry: () => !streamedText,
+        onRetry,
+      });
+    } catch (error) {
+      // A stopped or broken stream is still billed for the prompt and whatever it produced.
+      // Switching providers after text has streamed would splice two answers together.
+      if (isAbortError(error) || streamedText) {
+        recordAttempt(streamedText);
+        throw error;
+      }
+      const providerError = toProviderError(error);
+      if (index === targets.length - 1 || !shouldFallBack(providerError)) {
+        throw error;
+      }
+      console.warn(`${target.provider.toUpperCase()} failed, falling back:`, error);
+      failedAttempts.push({ provider: target.provider, category: providerError.category, message: providerError.message });
+      continue;
+    }
+
+    return { result, usage: recordAttempt(result.text, result), failedAttempts };
+  }
+};
+
+interface ToolRoundOptions {
+  // Asks for the next reply; `toolLimitReached` is set on the last round, which goes out without tools
+  reply: (transcript: Message[], toolLimitReached: boolean) => Promise<Message>;
+  // Runs the calls and returns their result messages
+  runTools: (calls: ToolCall[]) => Promise<Message[]>;
+}
+
+// Each round answers the previous round's tool calls until the model replies without any. Once
+// MAX_TOOL_ROUNDS is used up, one more round without tools makes sure the last results get an answer.
+export const runToolRounds = async (
+  history: Message[],
+  { reply, runTools }: ToolRoundOptions
+): Promise<{ transcript: Message[]; reply: Message }> => {
+  let transcript = history;
+  for (let round = 1; ; round++) {
+    const toolLimitReached = round > MAX_TOOL_ROUNDS;
+    const message = await reply(transcript, toolLimitReached);
+    if (!message.toolCalls || toolLimitReached) {
+      return { transcript, reply: message };
+    }
+    transcript = [...transcript, message, ...await runTools(message.toolCalls)];
+  }
+};
@@ -0,0 +1,66 @@
+import { ProviderError, sleep } from '@/lib/providers';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+
+export interface RetryPolicy {
+  // Total attempts including the first request; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: ProviderError;
+}
+
+interface RetryOptions {
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  // Lets the caller veto a retry, e.g. once part of a reply has been shown
+  canRetry?: () => boolean;
+}
+
+const RETRY_POLICY_KEY = 'retry-policy';
+
+// Server-requested waits longer than this are treated as a dead end rather than retried
+const MAX_HONORED_RETRY_AFTER_MS = 60_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20_000,
+};
+
+export const loadRetryPolicy = (): RetryPolicy => loadJsonSettings(RETRY_POLICY_KEY, DEFAULT_RETRY_POLICY);
+
+export const saveRetryPolicy = (policy: RetryPolicy) => saveJson(RETRY_POLICY_KEY, policy);
+
+// Equal-jitter exponential backoff: a random delay between half and all of base * 2^(attempt - 1).
+export const backoffDelay = (attempt: number, policy: RetryPolicy) => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// Runs the request, retrying retryable provider errors (429s and 5xx) with backoff.
+// Auth and quota errors are never retryable, so they fail on the first attempt.
+export async function withRetry<T>(run: () => Promise<T>, { policy, signal, onRetry, canRetry }: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const shouldRetry = error instanceof ProviderError
+        && error.retryable
+        && attempt < policy.maxAttempts
+        && (error.retryAfterMs ?? 0) <= MAX_HONORED_RETRY_AFTER_MS
+        && (canRetry?.() ?? true);
+      if (!shouldRetry) throw error;
+
+      const delayMs = error.retryAfterMs ?? backoffDelay(attempt, policy);
+      onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { ImagePart } from '@/lib/providers';
+import { encodeCanvas, MAX_IMAGE_DIMENSION } from '@/lib/images';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// In pixels of the captured frame
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Anything that yields a video stream; the capture flow never calls getDisplayMedia directly.
+export type CaptureSource = () => Promise<MediaStream>;
+
+export const displayMediaSource: CaptureSource = () => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    return Promise.reject(new Error('This browser cannot share the screen. Screen capture needs a secure (https) page.'));
+  }
+  return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+};
+
+// Paints a test card with a ticking clock so the whole flow can be exercised without a real share.
+export const createFakeDisplayStream = (width = 1280, height = 720): MediaStream => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+
+  const paint = () => {
+    context.fillStyle = '#1e293b';
+    context.fillRect(0, 0, width, height);
+    context.strokeStyle = '#334155';
+    for (let x = 0; x < width; x += 80) context.strokeRect(x, 0, 80, height);
+    for (let y = 0; y < height; y += 80) context.strokeRect(0, y, width, 80);
+    ['#ef4444', '#22c55e', '#3b82f6'].forEach((color, index) => {
+      context.fillStyle = color;
+      context.fillRect(120 + index * 200, height - 240, 160, 120);
+    });
+    context.fillStyle = '#f8fafc';
+    context.font = 'bold 48px sans-serif';
+    context.fillText('Fake screen share', 120, 160);
+    context.font = '32px monospace';
+    context.fillText(new Date().toLocaleTimeString(), 120, 220);
+  };
+
+  paint();
+  const timer = setInterval(paint, 250);
+  const stream = canvas.captureStream(4);
+  const [track] = stream.getVideoTracks();
+  const stopTrack = track.stop.bind(track);
+  track.stop = () => {
+    clearInterval(timer);
+    stopTrack();
+  };
+  return stream;
+};
+
+export const fakeDisplaySource: CaptureSource = async () => createFakeDisplayStream();
+
+// Set VITE_FAKE_SCREEN_CAPTURE to capture the test card instead of opening the browser's picker.
+export const defaultCaptureSource: CaptureSource = import.meta.env.VITE_FAKE_SCREEN_CAPTURE
+  ? fakeDisplaySource
+  : displayMediaSource;
+
+// The user closing the picker is not an error worth reporting.
+export const isCaptureCancelled = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'AbortError');
+
+// Copies one frame of the stream to a canvas, then stops sharing.
+export const captureFrame = async (source: CaptureSource = defaultCaptureSource): Promise<HTMLCanvasElement> => {
+  const stream = await source();
+  const video = document.createElement('video');
+  try {
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    // Playback can start before the first frame has been decoded
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+      await new Promise(resolve => video.addEventListener('loadeddata', resolve, { once: true }));
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d').drawImage(video, 0, 0);
+    return canvas;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  }
+};
+
+export const normalizeRect = (start: Point, end: Point): Rect => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
+// Cuts out the crop area with redactions painted solid black, downscaled for upload.
+// Redactions are drawn before scaling so nothing underneath survives.
+export const renderCapture = (frame: HTMLCanvasElement, crop: Rect | null, redactions: Rect[]): HTMLCanvasElement => {
+  const area = crop ?? { x: 0, y: 0, width: frame.width, height: frame.height };
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(area.width, area.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width * scale));
+  canvas.height = Math.max(1, Math.round(area.height * scale));
+
+  const context = canvas.getContext('2d');
+  context.scale(scale, scale);
+  context.translate(-area.x, -area.y);
+  context.drawImage(frame, 0, 0);
+  context.fillStyle = '#000000';
+  redactions.forEach(rect => context.fillRect(rect.x, rect.y, rect.width, rect.height));
+  return canvas;
+};
+
+export const exportCapture = (frame: HTMLCanvasElement, crop: Rect | null, redactions: Rect[]): Promise<ImagePart> =>
+  encodeCanvas(renderCapture(frame, crop, redactions));
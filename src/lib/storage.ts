@@ -0,0 +1,24 @@
+// JSON values kept in localStorage. A missing or unreadable value comes back as the fallback.
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved === null ? fallback : JSON.parse(saved);
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadJsonList = <T>(key: string): T[] => {
+  const saved = loadJson<unknown>(key, []);
+  return Array.isArray(saved) ? saved : [];
+};
+
+// Saved fields win over the defaults, so settings added later start at their default.
+export const loadJsonSettings = <T extends object>(key: string, defaults: T): T => {
+  const saved = loadJson<unknown>(key, {});
+  return saved && typeof saved === 'object' && !Array.isArray(saved) ? { ...defaults, ...saved } : defaults;
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type { JsonSchema, ResponseFormat } from '@/lib/providers';
+import { toJsonSchema, toZodSchema } from '@/lib/tools';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+
+export interface OutputSchema {
+  id: string;
+  name: string;
+  schema: JsonSchema;
+  // Built-in schemas cannot be edited or deleted
+  builtIn?: boolean;
+}
+
+const defineBuiltIn = (id: string, name: string, schema: z.AnyZodObject): OutputSchema => ({
+  id,
+  name,
+  schema: toJsonSchema(schema),
+  builtIn: true,
+});
+
+export const BUILT_IN_OUTPUT_SCHEMAS: OutputSchema[] = [
+  defineBuiltIn('action-items', 'Action items', z.object({
+    items: z.array(z.object({
+      task: z.string().describe('What needs to be done, starting with a verb'),
+      owner: z.string().optional().describe('Who is responsible, if mentioned'),
+      due: z.string().optional().describe('Due date as YYYY-MM-DD, if mentioned'),
+      priority: z.enum(['high', 'medium', 'low']),
+    })),
+  })),
+  defineBuiltIn('ticket-draft', 'Ticket draft', z.object({
+    title: z.string().describe('Short summary, under 80 characters'),
+    type: z.enum(['bug', 'feature', 'task']),
+    priority: z.enum(['high', 'medium', 'low']),
+    description: z.string(),
+    acceptanceCriteria: z.array(z.string()),
+    labels: z.array(z.string()),
+  })),
+];
+
+export interface StructuredOutputSettings {
+  enabled: boolean;
+  schemaId: string;
+  customSchemas: OutputSchema[];
+}
+
+const STRUCTURED_OUTPUT_KEY = 'structured-output';
+
+export const DEFAULT_STRUCTURED_OUTPUT_SETTINGS: StructuredOutputSettings = {
+  enabled: false,
+  schemaId: BUILT_IN_OUTPUT_SCHEMAS[0].id,
+  customSchemas: [],
+};
+
+export const loadStructuredOutputSettings = (): StructuredOutputSettings =>
+  loadJsonSettings(STRUCTURED_OUTPUT_KEY, DEFAULT_STRUCTURED_OUTPUT_SETTINGS);
+
+export const saveStructuredOutputSettings = (settings: StructuredOutputSettings) =>
+  saveJson(STRUCTURED_OUTPUT_KEY, settings);
+
+export const listOutputSchemas = (settings: StructuredOutputSettings): OutputSchema[] => [
+  ...BUILT_IN_OUTPUT_SCHEMAS,
+  ...settings.customSchemas,
+];
+
+// The schema replies must follow, or null when the mode is off.
+export const activeOutputSchema = (settings: StructuredOutputSettings): OutputSchema | null => {
+  if (!settings.enabled) return null;
+  const schemas = listOutputSchemas(settings);
+  return schemas.find(schema => schema.id === settings.schemaId) ?? schemas[0];
+};
+
+// Reads a schema typed by the user. Both providers need an object at the top level.
+export const parseOutputSchema = (text: string): JsonSchema => {
+  let schema: JsonSchema;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error('The schema is not valid JSON.');
+  }
+  if (schema?.type !== 'object' || !schema.properties || Object.keys(schema.properties).length === 0) {
+    throw new Error('The schema must be an object with at least one property.');
+  }
+  return schema;
+};
+
+export const toResponseFormat = (outputSchema: OutputSchema): ResponseFormat => ({
+  name: outputSchema.id.replace(/[^a-zA-Z0-9_-]/g, '_'),
+  schema: outputSchema.schema,
+});
+
+// Providers without native JSON mode only have this to go on, so it is sent to all of them.
+export const structuredOutputInstruction = (outputSchema: OutputSchema) =>
+  'Reply with a single JSON value that matches this JSON Schema, with no prose and no code fences:\n' +
+  JSON.stringify(outputSchema.schema);
+
+// Holds either the validated value or why the reply was rejected
+export interface StructuredValidation {
+  data?: unknown;
+  error?: string;
+}
+
+export const validateStructuredReply = (text: string, outputSchema: OutputSchema): StructuredValidation => {
+  // Models sometimes wrap the JSON in a fence despite being told not to
+  const json = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { error: 'The reply was not valid JSON.' };
+  }
+
+  const parsed = toZodSchema(outputSchema.schema).safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`);
+    return { error: issues.join('; ') };
+  }
+  return { data: parsed.data };
+};
+
+export const structuredCorrectionPrompt = (error: string) =>
+  `That reply did not match the schema (${error}). Reply again with only the corrected JSON.`;
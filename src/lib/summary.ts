@@ -0,0 +1,96 @@
+import type { Message } from '@/lib/chat';
+import { toChatMessages } from '@/lib/chat';
+import { estimateTokens } from '@/lib/tokens';
+import type { AIProvider, ChatMessage } from '@/lib/providers';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+
+export interface ConversationSummary {
+  content: string;
+  // Messages folded into the memo; they stay visible but are no longer sent
+  coveredIds: string[];
+  updatedAt: Date;
+}
+
+export interface SummarySettings {
+  enabled: boolean;
+  // Unsummarized history above this many estimated tokens triggers a new summary
+  thresholdTokens: number;
+}
+
+const SUMMARY_SETTINGS_KEY = 'summary-settings';
+
+// The most recent messages are always sent verbatim so the model sees the live exchange
+const KEEP_RECENT_MESSAGES = 6;
+
+export const DEFAULT_SUMMARY_SETTINGS: SummarySettings = {
+  enabled: false,
+  thresholdTokens: 4000,
+};
+
+export const SUMMARY_SYSTEM_PROMPT =
+  'You maintain a running memo of a conversation between a user and an AI assistant. ' +
+  'Write a compact "conversation so far" summary that preserves names, numbers, decisions, ' +
+  'open questions and anything the user asked to remember. Use terse bullet points and no preamble.';
+
+export const loadSummarySettings = (): SummarySettings =>
+  loadJsonSettings(SUMMARY_SETTINGS_KEY, DEFAULT_SUMMARY_SETTINGS);
+
+export const saveSummarySettings = (settings: SummarySettings) => saveJson(SUMMARY_SETTINGS_KEY, settings);
+
+const isCovered = (summary: ConversationSummary | null, message: Message) =>
+  !!summary?.coveredIds.includes(message.id);
+
+// Returns the messages that should be folded into the memo next, or an empty list
+// when the unsummarized history is still under the threshold.
+export const selectMessagesToSummarize = (
+  history: Message[],
+  summary: ConversationSummary | null,
+  settings: SummarySettings,
+  provider: AIProvider
+): Message[] => {
+  if (!settings.enabled) return [];
+
+  const pending = history.filter(msg => msg.kind !== 'error' && !isCovered(summary, msg));
+  const pendingTokens = pending.reduce((sum, msg) => sum + estimateTokens(msg.content, provider), 0);
+  if (pendingTokens <= settings.thresholdTokens) return [];
+
+  // Pinned messages are kept verbatim rather than paraphrased
+  return pending.slice(0, -KEEP_RECENT_MESSAGES).filter(msg => !msg.pinned);
+};
+
+export const buildSummaryMessages = (summary: ConversationSummary | null, messages: Message[]): ChatMessage[] => {
+  const transcript = toChatMessages(messages)
+    .map(msg => {
+      if (msg.role === 'tool') return `Tool ${msg.toolName}: ${msg.content}`;
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+    })
+    .join('\n\n');
+
+  return [{
+    role: 'user',
+    content: summary
+      ? `Current memo:\n${summary.content}\n\nUpdate the memo with these newer messages:\n\n${transcript}`
+      : `Summarize this conversation:\n\n${transcript}`,
+  }];
+};
+
+export const extendSummary = (
+  summary: ConversationSummary | null,
+  content: string,
+  messages: Message[]
+): ConversationSummary => ({
+  content,
+  coveredIds: [...(summary?.coveredIds ?? []), ...messages.map(msg => msg.id)],
+  updatedAt: new Date(),
+});
+
+// Replaces summarized turns with the memo, which travels with the system prompt.
+export const applySummary = (history: Message[], summary: ConversationSummary | null, system?: string) => {
+  if (!summary) return { messages: history, system };
+
+  const memo = `Conversation so far:\n${summary.content}`;
+  return {
+    messages: history.filter(msg => !isCovered(summary, msg)),
+    system: system ? `${system}\n\n${memo}` : memo,
+  };
+};
@@ -0,0 +1,98 @@
+import type { Message } from '@/lib/chat';
+import type { AIProvider } from '@/lib/providers';
+
+// Matched by longest prefix so dated snapshots ("gpt-4o-2024-08-06") resolve to their family.
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16_385,
+  'gpt-4': 8_192,
+  'gpt-4-turbo': 128_000,
+  'gpt-4o': 128_000,
+  'gpt-4.1': 1_047_576,
+  'o1': 200_000,
+  'o3': 200_000,
+  'o4-mini': 200_000,
+  'gemini-1.5-flash': 1_048_576,
+  'gemini-1.5-pro': 2_097_152,
+  'gemini-2.0-flash': 1_048_576,
+  'gemini-2.5': 1_048_576,
+  'claude-3': 200_000,
+  'claude-sonnet-4': 200_000,
+  'claude-opus-4': 200_000,
+  'llama3': 8_192,
+  'llama3.1': 131_072,
+  'llama3.2': 131_072,
+  'mistral': 32_768,
+  'qwen2.5': 32_768,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Average characters per token; Claude's tokenizer produces slightly more tokens per character.
+const CHARS_PER_TOKEN: Partial<Record<AIProvider, number>> = {
+  anthropic: 3.5,
+};
+
+// Role markers and separators each message adds on top of its text
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough cost of one downscaled image; providers charge anywhere from ~250 to ~1,600 tokens
+const IMAGE_TOKENS = 1_000;
+
+// Kept free so the reply is never squeezed out by a context that only barely fits
+const SAFETY_MARGIN_TOKENS = 256;
+
+export const getContextWindow = (model: string): number => {
+  const match = Object.keys(CONTEXT_WINDOWS)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? CONTEXT_WINDOWS[match] : DEFAULT_CONTEXT_WINDOW;
+};
+
+export const estimateTokens = (text: string, provider: AIProvider): number =>
+  Math.ceil(text.length / (CHARS_PER_TOKEN[provider] ?? 4));
+
+const messageTokens = (message: Message, provider: AIProvider) =>
+  estimateTokens(message.content, provider) + (message.images?.length ?? 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+
+interface TrimOptions {
+  provider: AIProvider;
+  model: string;
+  system?: string;
+  // Tokens reserved for the reply
+  maxTokens: number;
+}
+
+export interface TrimResult {
+  messages: Message[];
+  droppedCount: number;
+  // Estimated prompt tokens for the trimmed request, system prompt included
+  promptTokens: number;
+  contextWindow: number;
+}
+
+// Drops the oldest turns until the request fits the model's context window,
+// always keeping pinned messages and the latest turn. The system prompt is
+// sent separately and only counted here.
+export const trimHistory = (history: Message[], { provider, model, system, maxTokens }: TrimOptions): TrimResult => {
+  const messages = history.filter(msg => msg.kind !== 'error');
+  const contextWindow = getContextWindow(model);
+  const budget = contextWindow - maxTokens - SAFETY_MARGIN_TOKENS;
+  const systemTokens = system ? estimateTokens(system, provider) + MESSAGE_OVERHEAD_TOKENS : 0;
+
+  let promptTokens = systemTokens + messages.reduce((sum, msg) => sum + messageTokens(msg, provider), 0);
+  const dropped = new Set<string>();
+
+  for (let i = 0; i < messages.length - 1 && promptTokens > budget; i++) {
+    const message = messages[i];
+    if (message.pinned) continue;
+    dropped.add(message.id);
+    promptTokens -= messageTokens(message, provider);
+  }
+
+  return {
+    messages: messages.filter(msg => !dropped.has(msg.id)),
+    droppedCount: dropped.size,
+    promptTokens,
+    contextWindow,
+  };
+};
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string };
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+};
+
+const factorial = (n: number) => {
+  if (!Number.isInteger(n) || n < 0 || n > 170) {
+    throw new Error('Factorial needs a whole number between 0 and 170.');
+  }
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  trunc: Math.trunc,
+  sign: Math.sign,
+  exp: Math.exp,
+  ln: Math.log,
+  log: (x, base) => (base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base)),
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  min: Math.min,
+  max: Math.max,
+  hypot: Math.hypot,
+  pow: Math.pow,
+  round: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+  factorial,
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),!]))/iy;
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Unexpected character "${expression.slice(start).trim()[0]}".`);
+    }
+    if (match[1]) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2]) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else if (match[3]) tokens.push({ type: 'operator', value: match[3] === '**' ? '^' : match[3] });
+  }
+  return tokens;
+};
+
+// Recursive descent over + - * / % ^ ! with the usual precedence; never calls eval.
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (value: string) => tokens[position]?.type === 'operator' && tokens[position].value === value;
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`Expected "${value}".`);
+    position++;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek('+') || peek('-')) {
+      const operator = tokens[position++].value;
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek('*') || peek('/') || peek('%')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // Binds looser than ^ so -2^2 is -4
+  const parseUnary = (): number => {
+    if (peek('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (peek('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePostfix();
+    if (!peek('^')) return base;
+    position++;
+    return base ** parseUnary();
+  };
+
+  const parsePostfix = (): number => {
+    let value = parsePrimary();
+    while (peek('!')) {
+      position++;
+      value = factorial(value);
+    }
+    return value;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new Error('The expression ended unexpectedly.');
+    if (token.type === 'number') return token.value;
+    if (token.type === 'operator') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}".`);
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+
+    if (peek('(')) {
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Unknown function "${token.value}".`);
+      position++;
+      const args: number[] = [];
+      if (!peek(')')) {
+        args.push(parseSum());
+        while (peek(',')) {
+          position++;
+          args.push(parseSum());
+        }
+      }
+      expect(')');
+      return fn(...args);
+    }
+    if (token.value in CONSTANTS) return CONSTANTS[token.value];
+    throw new Error(`Unknown name "${token.value}".`);
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty.');
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}".`);
+  if (!Number.isFinite(result)) throw new Error('The result is not a finite number.');
+  // Drops binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number(result.toPrecision(15));
+};
+
+export const calculatorTool = defineTool({
+  name: 'calculate',
+  description:
+    'Evaluates an arithmetic expression exactly instead of estimating it. Supports + - * / % ^ !, parentheses, ' +
+    'pi, e and the functions sqrt, cbrt, abs, round(x, digits), floor, ceil, trunc, exp, ln, log(x, base), log2, ' +
+    'sin, cos, tan, asin, acos, atan, atan2, min, max, hypot, pow and factorial. Angles are in radians.',
+  parameters: z.object({
+    expression: z.string().min(1).describe('For example "(1250 * 1.19) / 12" or "sqrt(2) ^ 3"'),
+  }),
+  handler: async ({ expression }) => ({ expression, result: evaluateExpression(expression) }),
+});
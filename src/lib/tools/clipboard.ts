@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+export const copyToClipboardTool = defineTool({
+  name: 'copy_to_clipboard',
+  description: "Copies text to the user's clipboard so they can paste it into another app.",
+  parameters: z.object({
+    text: z.string().min(1).describe('The exact text to copy'),
+  }),
+  // Overwrites whatever the user had copied
+  sensitive: true,
+  handler: async ({ text }) => {
+    await navigator.clipboard.writeText(text);
+    return { copied: true, characters: text.length };
+  },
+});
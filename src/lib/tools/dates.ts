@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import {
+  add,
+  addMilliseconds,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  format,
+  intervalToDuration,
+  isValid,
+  parseISO,
+  subDays,
+  type Duration,
+} from 'date-fns';
+import { defineTool } from './registry';
+
+// date-fns works in the browser's own zone, so other zones go through Intl: an instant is
+// broken into the "wall clock" fields it shows in that zone, and calendar math runs on those.
+
+interface WallClock {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const checkTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as "Europe/Berlin".`);
+  }
+  return timeZone;
+};
+
+const toWallClock = (instant: Date, timeZone: string): WallClock => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const field = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: field('year'),
+    month: field('month'),
+    day: field('day'),
+    hour: field('hour'),
+    minute: field('minute'),
+    second: field('second'),
+    millisecond: instant.getUTCMilliseconds(),
+  };
+};
+
+// Read as UTC so the browser's own daylight saving gaps never shift the fields
+const wallClockAsUtc = (wallClock: WallClock) =>
+  Date.UTC(
+    wallClock.year,
+    wallClock.month - 1,
+    wallClock.day,
+    wallClock.hour,
+    wallClock.minute,
+    wallClock.second,
+    wallClock.millisecond
+  );
+
+const offsetMs = (instant: Date, timeZone: string) => wallClockAsUtc(toWallClock(instant, timeZone)) - instant.getTime();
+
+const fromWallClock = (wallClock: WallClock, timeZone: string) => {
+  const guess = wallClockAsUtc(wallClock);
+  // A second pass settles times next to a daylight saving change
+  const first = guess - offsetMs(new Date(guess), timeZone);
+  return new Date(guess - offsetMs(new Date(first), timeZone));
+};
+
+const timeOfDayMs = (wallClock: WallClock) =>
+  wallClockAsUtc(wallClock) - Date.UTC(wallClock.year, wallClock.month - 1, wallClock.day);
+
+// The date at local noon, where date-fns' calendar math is safe from daylight saving changes
+const calendarDate = (wallClock: WallClock) => new Date(wallClock.year, wallClock.month - 1, wallClock.day, 12);
+
+const withDate = (wallClock: WallClock, date: Date): WallClock => ({
+  ...wallClock,
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+  day: date.getDate(),
+});
+
+// Calendar breakdown between two wall clocks; a day is borrowed when the end is earlier in the day
+const wallClockDuration = (start: WallClock, end: WallClock): Duration => {
+  let time = timeOfDayMs(end) - timeOfDayMs(start);
+  let endDate = calendarDate(end);
+  if (time < 0) {
+    time += DAY_MS;
+    endDate = subDays(endDate, 1);
+  }
+  const hours = Math.floor(time / 3600000);
+  const minutes = Math.floor(time / 60000) % 60;
+  const seconds = Math.floor(time / 1000) % 60;
+  return {
+    ...intervalToDuration({ start: calendarDate(start), end: endDate }),
+    ...(hours > 0 && { hours }),
+    ...(minutes > 0 && { minutes }),
+    ...(seconds > 0 && { seconds }),
+  };
+};
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+const formatOffset = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  return `${ms < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// Dates with an offset or Z are exact instants; anything else is read as a time in `timeZone`.
+const parseDate = (value: string, timeZone: string) => {
+  const text = value.trim();
+  if (text.toLowerCase() === 'now') return new Date();
+
+  const local = LOCAL_DATE_TIME.exec(text);
+  if (local) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = local;
+    return fromWallClock(
+      { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second, millisecond: 0 },
+      timeZone
+    );
+  }
+
+  const instant = parseISO(text);
+  if (!isValid(instant)) {
+    throw new Error(`Could not read "${value}". Use ISO 8601 such as "2024-03-31 14:30" or "2024-03-31T14:30:00Z".`);
+  }
+  return instant;
+};
+
+const describe = (instant: Date, timeZone: string) => {
+  const wallClock = toWallClock(instant, timeZone);
+  const { year, month, day, hour, minute, second } = wallClock;
+  return {
+    timeZone,
+    local: `${pad(year, 4)}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`,
+    weekday: format(calendarDate(wallClock), 'EEEE'),
+    utcOffset: formatOffset(offsetMs(instant, timeZone)),
+    utc: instant.toISOString(),
+  };
+};
+
+const timeZoneField = z
+  .string()
+  .optional()
+  .describe("IANA time zone such as \"America/New_York\"; defaults to the user's own");
+
+export const currentTimeTool = defineTool({
+  name: 'current_time',
+  description: "Returns the current date and time, in the user's time zone unless another is given.",
+  parameters: z.object({
+    timeZone: timeZoneField,
+  }),
+  handler: async ({ timeZone }) => describe(new Date(), checkTimeZone(timeZone || localTimeZone())),
+});
+
+export const convertTimeZoneTool = defineTool({
+  name: 'convert_time_zone',
+  description: 'Converts a date and time from one time zone to another, accounting for daylight saving time.',
+  parameters: z.object({
+    dateTime: z.string().describe('For example "2024-03-31 09:00", read as a time in `from`, or "now"'),
+    from: timeZoneField,
+    to: z.array(z.string()).min(1).describe('IANA time zones to convert into'),
+  }),
+  handler: async ({ dateTime, from, to }) => {
+    const source = checkTimeZone(from || localTimeZone());
+    const instant = parseDate(dateTime, source);
+    return {
+      from: describe(instant, source),
+      to: to.map(zone => describe(instant, checkTimeZone(zone))),
+    };
+  },
+});
+
+export const dateDifferenceTool = defineTool({
+  name: 'date_difference',
+  description: 'Calculates the time between two dates, both as a calendar breakdown and as totals.',
+  parameters: z.object({
+    start: z.string().describe('ISO 8601 date or date and time, or "now"'),
+    end: z.string().describe('ISO 8601 date or date and time, or "now"'),
+    timeZone: timeZoneField,
+  }),
+  handler: async ({ start, end, timeZone }) => {
+    const zone = checkTimeZone(timeZone || localTimeZone());
+    const from = parseDate(start, zone);
+    const to = parseDate(end, zone);
+    const [earlier, later] = from <= to ? [from, to] : [to, from];
+    const minutes = differenceInMinutes(later, earlier);
+    return {
+      start: describe(from, zone),
+      end: describe(to, zone),
+      // Negative when end is before start
+      sign: from <= to ? 1 : -1,
+      duration: wallClockDuration(toWallClock(earlier, zone), toWallClock(later, zone)),
+      totalCalendarDays: Math.abs(
+        differenceInCalendarDays(calendarDate(toWallClock(to, zone)), calendarDate(toWallClock(from, zone)))
+      ),
+      totalHours: Math.floor(minutes / 60),
+      totalMinutes: minutes,
+    };
+  },
+});
+
+const amountField = z.number().int().optional();
+
+export const shiftDateTool = defineTool({
+  name: 'shift_date',
+  description:
+    'Adds or subtracts an amount of time from a date. Calendar units keep the local time across daylight saving ' +
+    'changes; hours and minutes are exact elapsed time. Use negative amounts to go back.',
+  parameters: z.object({
+    date: z.string().describe('ISO 8601 date or date and time, or "now"'),
+    years: amountField,
+    months: amountField,
+    weeks: amountField,
+    days: amountField,
+    hours: amountField,
+    minutes: amountField,
+    timeZone: timeZoneField,
+  }),
+  handler: async ({ date, years, months, weeks, days, hours = 0, minutes = 0, timeZone }) => {
+    const zone = checkTimeZone(timeZone || localTimeZone());
+    const instant = parseDate(date, zone);
+    const wallClock = toWallClock(instant, zone);
+    const shiftedDay = fromWallClock(withDate(wallClock, add(calendarDate(wallClock), { years, months, weeks, days })), zone);
+    const result = addMilliseconds(shiftedDay, (hours * 60 + minutes) * 60000);
+    return { from: describe(instant, zone), result: describe(result, zone) };
+  },
+});
@@ -0,0 +1,92 @@
+import type { ToolCall, ToolSpec } from '@/lib/providers';
+import { loadJsonSettings, saveJson } from '@/lib/storage';
+import { calculatorTool } from './calculator';
+import { copyToClipboardTool } from './clipboard';
+import { convertTimeZoneTool, currentTimeTool, dateDifferenceTool, shiftDateTool } from './dates';
+import { timerTool } from './timer';
+import { convertUnitsTool } from './units';
+import type { ToolContext, ToolDefinition } from './registry';
+import { toJsonSchema } from './schema';
+
+export { defineTool, type ToolContext, type ToolDefinition } from './registry';
+export { toJsonSchema, toZodSchema } from './schema';
+
+// Adding a tool means writing a module with defineTool and listing it here.
+const registry: ToolDefinition[] = [
+  calculatorTool,
+  currentTimeTool,
+  convertTimeZoneTool,
+  dateDifferenceTool,
+  shiftDateTool,
+  convertUnitsTool,
+  timerTool,
+  copyToClipboardTool,
+];
+
+export const listTools = (): ToolDefinition[] => registry;
+
+export interface ToolSettings {
+  // Stored as the switched-off names so newly added tools start enabled
+  disabled: string[];
+}
+
+const TOOL_SETTINGS_KEY = 'tool-settings';
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  disabled: [],
+};
+
+export const loadToolSettings = (): ToolSettings => {
+  const saved = loadJsonSettings(TOOL_SETTINGS_KEY, DEFAULT_TOOL_SETTINGS);
+  return { disabled: Array.isArray(saved.disabled) ? saved.disabled : [] };
+};
+
+export const saveToolSettings = (settings: ToolSettings) => saveJson(TOOL_SETTINGS_KEY, settings);
+
+export const listEnabledTools = (settings: ToolSettings): ToolDefinition[] =>
+  registry.filter(tool => !settings.disabled.includes(tool.name));
+
+export const getTool = (name: string): ToolDefinition | undefined => registry.find(tool => tool.name === name);
+
+export const toToolSpecs = (tools: ToolDefinition[]): ToolSpec[] =>
+  tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toJsonSchema(tool.parameters),
+  }));
+
+export interface ToolOutcome {
+  status: 'done' | 'error';
+  // Sent back to the model as the tool result
+  content: string;
+}
+
+const failure = (message: string): ToolOutcome => ({ status: 'error', content: JSON.stringify({ error: message }) });
+
+// Validates the model's arguments and runs the handler. Failures are reported back
+// to the model as results so it can correct itself instead of ending the turn.
+export const executeToolCall = async (call: ToolCall, context: ToolContext = {}): Promise<ToolOutcome> => {
+  const tool = getTool(call.name);
+  if (!tool) return failure(`Unknown tool "${call.name}".`);
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    return failure('Arguments were not valid JSON.');
+  }
+
+  const parsed = tool.parameters.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+    return failure(`Invalid arguments. ${issues.join('; ')}`);
+  }
+
+  try {
+    const result = await tool.handler(parsed.data, context);
+    return { status: 'done', content: typeof result === 'string' ? result : JSON.stringify(result) };
+  } catch (error) {
+    if (context.signal?.aborted) throw error;
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+};
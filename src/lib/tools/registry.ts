@@ -0,0 +1,19 @@
+import type { z } from 'zod';
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition<Parameters extends z.AnyZodObject = z.AnyZodObject> {
+  // Letters, digits and underscores only, as both OpenAI and Gemini require
+  name: string;
+  description: string;
+  parameters: Parameters;
+  // Sensitive tools only run after the user approves each call
+  sensitive?: boolean;
+  // The resolved value is sent back to the model, JSON-encoded unless it is already a string
+  handler: (args: z.infer<Parameters>, context: ToolContext) => Promise<unknown>;
+}
+
+// Keeps the handler's argument type tied to its schema.
+export const defineTool = <Parameters extends z.AnyZodObject>(tool: ToolDefinition<Parameters>) => tool;
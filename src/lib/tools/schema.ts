@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import type { JsonSchema } from '@/lib/providers';
+
+// Converts the zod types tool parameters are built from. Refinements are
+// checked when the call runs rather than described to the model.
+export const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const json = convert(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+};
+
+const convert = (schema: z.ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return toJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return toJsonSchema(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 && { required }),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: toJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { type: typeof schema.value === 'number' ? 'number' : 'string', enum: [schema.value] };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  return { type: 'string' };
+};
+
+// The inverse, for schemas the user writes by hand. Properties not listed as required
+// are optional and unknown types accept anything.
+export const toZodSchema = (schema: JsonSchema): z.ZodTypeAny => {
+  const zod = toZod(schema);
+  return schema.description ? zod.describe(schema.description) : zod;
+};
+
+const toZod = (schema: JsonSchema): z.ZodTypeAny => {
+  if (schema.enum?.length && schema.enum.every(value => typeof value === 'string')) {
+    return z.enum(schema.enum as [string, ...string[]]);
+  }
+  if (schema.enum?.length) {
+    const [first, ...rest] = schema.enum.map(value => z.literal(value));
+    return rest.length > 0 ? z.union([first, rest[0], ...rest.slice(1)]) : first;
+  }
+  switch (schema.type) {
+    case 'object': {
+      const required = schema.required ?? [];
+      return z.object(Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => {
+        const property = toZodSchema(value);
+        return [key, required.includes(key) ? property : property.optional()];
+      })));
+    }
+    case 'array':
+      return z.array(schema.items ? toZodSchema(schema.items) : z.unknown());
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    default:
+      return z.unknown();
+  }
+};
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { toast } from '@/hooks/use-toast';
+import { defineTool } from './registry';
+
+const formatSeconds = (total: number) => {
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return [hours && `${hours}h`, minutes && `${minutes}m`, seconds && `${seconds}s`].filter(Boolean).join(' ');
+};
+
+export const timerTool = defineTool({
+  name: 'start_timer',
+  description:
+    'Starts a countdown that shows the user a notification when it ends. Returns immediately; the model is not ' +
+    'told when the timer fires.',
+  parameters: z.object({
+    seconds: z.number().int().min(1).max(86400).describe('Length of the countdown, at most one day'),
+    label: z.string().optional().describe('Shown in the notification, such as "Tea is ready"'),
+  }),
+  // Stopping the reply does not cancel a timer that was already set
+  handler: async ({ seconds, label }) => {
+    const startedAt = new Date();
+    setTimeout(() => {
+      toast({
+        title: label || 'Timer finished',
+        description: `${formatSeconds(seconds)} timer started at ${startedAt.toLocaleTimeString()} is up.`,
+      });
+    }, seconds * 1000);
+    return { started: true, duration: formatSeconds(seconds), endsAt: new Date(startedAt.getTime() + seconds * 1000).toISOString() };
+  },
+});
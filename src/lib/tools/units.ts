@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+interface UnitDefinition {
+  dimension: string;
+  // Size of one unit in the dimension's base unit
+  factor: number;
+  names: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  { dimension: 'length', factor: 1, names: ['m', 'meter', 'meters', 'metre', 'metres'] },
+  { dimension: 'length', factor: 1000, names: ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres'] },
+  { dimension: 'length', factor: 0.01, names: ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'] },
+  { dimension: 'length', factor: 0.001, names: ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'] },
+  { dimension: 'length', factor: 1609.344, names: ['mi', 'mile', 'miles'] },
+  { dimension: 'length', factor: 0.9144, names: ['yd', 'yard', 'yards'] },
+  { dimension: 'length', factor: 0.3048, names: ['ft', 'foot', 'feet'] },
+  { dimension: 'length', factor: 0.0254, names: ['in', 'inch', 'inches'] },
+  { dimension: 'length', factor: 1852, names: ['nmi', 'nautical mile', 'nautical miles'] },
+
+  { dimension: 'mass', factor: 1, names: ['kg', 'kilogram', 'kilograms'] },
+  { dimension: 'mass', factor: 0.001, names: ['g', 'gram', 'grams'] },
+  { dimension: 'mass', factor: 0.000001, names: ['mg', 'milligram', 'milligrams'] },
+  { dimension: 'mass', factor: 1000, names: ['t', 'tonne', 'tonnes', 'metric ton', 'metric tons'] },
+  { dimension: 'mass', factor: 0.45359237, names: ['lb', 'lbs', 'pound', 'pounds'] },
+  { dimension: 'mass', factor: 0.028349523125, names: ['oz', 'ounce', 'ounces'] },
+  { dimension: 'mass', factor: 6.35029318, names: ['st', 'stone', 'stones'] },
+
+  // Gallons, pints and cups are US customary; imperial ones need the prefix
+  { dimension: 'volume', factor: 1, names: ['l', 'liter', 'liters', 'litre', 'litres'] },
+  { dimension: 'volume', factor: 0.001, names: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { dimension: 'volume', factor: 1000, names: ['m3', 'm^3', 'cubic meter', 'cubic meters'] },
+  { dimension: 'volume', factor: 3.785411784, names: ['gal', 'gallon', 'gallons'] },
+  { dimension: 'volume', factor: 4.54609, names: ['imp gal', 'imperial gallon', 'imperial gallons'] },
+  { dimension: 'volume', factor: 0.946352946, names: ['qt', 'quart', 'quarts'] },
+  { dimension: 'volume', factor: 0.473176473, names: ['pt', 'pint', 'pints'] },
+  { dimension: 'volume', factor: 0.56826125, names: ['imp pt', 'imperial pint', 'imperial pints'] },
+  { dimension: 'volume', factor: 0.2365882365, names: ['cup', 'cups'] },
+  { dimension: 'volume', factor: 0.0295735295625, names: ['fl oz', 'fluid ounce', 'fluid ounces'] },
+  { dimension: 'volume', factor: 0.01478676478125, names: ['tbsp', 'tablespoon', 'tablespoons'] },
+  { dimension: 'volume', factor: 0.00492892159375, names: ['tsp', 'teaspoon', 'teaspoons'] },
+
+  { dimension: 'area', factor: 1, names: ['m2', 'm^2', 'square meter', 'square meters'] },
+  { dimension: 'area', factor: 1000000, names: ['km2', 'km^2', 'square kilometer', 'square kilometers'] },
+  { dimension: 'area', factor: 10000, names: ['ha', 'hectare', 'hectares'] },
+  { dimension: 'area', factor: 4046.8564224, names: ['ac', 'acre', 'acres'] },
+  { dimension: 'area', factor: 0.09290304, names: ['ft2', 'ft^2', 'sq ft', 'square foot', 'square feet'] },
+  { dimension: 'area', factor: 2589988.110336, names: ['mi2', 'mi^2', 'sq mi', 'square mile', 'square miles'] },
+
+  { dimension: 'speed', factor: 1, names: ['m/s', 'meters per second'] },
+  { dimension: 'speed', factor: 1 / 3.6, names: ['km/h', 'kph', 'kmh', 'kilometers per hour'] },
+  { dimension: 'speed', factor: 0.44704, names: ['mph', 'miles per hour'] },
+  { dimension: 'speed', factor: 1852 / 3600, names: ['kn', 'kt', 'knot', 'knots'] },
+
+  { dimension: 'time', factor: 1, names: ['s', 'sec', 'second', 'seconds'] },
+  { dimension: 'time', factor: 0.001, names: ['ms', 'millisecond', 'milliseconds'] },
+  { dimension: 'time', factor: 60, names: ['min', 'minute', 'minutes'] },
+  { dimension: 'time', factor: 3600, names: ['h', 'hr', 'hour', 'hours'] },
+  { dimension: 'time', factor: 86400, names: ['d', 'day', 'days'] },
+  { dimension: 'time', factor: 604800, names: ['wk', 'week', 'weeks'] },
+
+  { dimension: 'data', factor: 1, names: ['b', 'byte', 'bytes'] },
+  { dimension: 'data', factor: 1e3, names: ['kb', 'kilobyte', 'kilobytes'] },
+  { dimension: 'data', factor: 1e6, names: ['mb', 'megabyte', 'megabytes'] },
+  { dimension: 'data', factor: 1e9, names: ['gb', 'gigabyte', 'gigabytes'] },
+  { dimension: 'data', factor: 1e12, names: ['tb', 'terabyte', 'terabytes'] },
+  { dimension: 'data', factor: 2 ** 10, names: ['kib', 'kibibyte', 'kibibytes'] },
+  { dimension: 'data', factor: 2 ** 20, names: ['mib', 'mebibyte', 'mebibytes'] },
+  { dimension: 'data', factor: 2 ** 30, names: ['gib', 'gibibyte', 'gibibytes'] },
+  { dimension: 'data', factor: 2 ** 40, names: ['tib', 'tebibyte', 'tebibytes'] },
+
+  { dimension: 'energy', factor: 1, names: ['j', 'joule', 'joules'] },
+  { dimension: 'energy', factor: 1000, names: ['kj', 'kilojoule', 'kilojoules'] },
+  { dimension: 'energy', factor: 4.184, names: ['cal', 'calorie', 'calories'] },
+  { dimension: 'energy', factor: 4184, names: ['kcal', 'kilocalorie', 'kilocalories'] },
+  { dimension: 'energy', factor: 3600000, names: ['kwh', 'kilowatt hour', 'kilowatt hours'] },
+
+  { dimension: 'pressure', factor: 1, names: ['pa', 'pascal', 'pascals'] },
+  { dimension: 'pressure', factor: 1000, names: ['kpa', 'kilopascal', 'kilopascals'] },
+  { dimension: 'pressure', factor: 100000, names: ['bar'] },
+  { dimension: 'pressure', factor: 101325, names: ['atm', 'atmosphere', 'atmospheres'] },
+  { dimension: 'pressure', factor: 6894.757293168, names: ['psi'] },
+];
+
+// Temperatures have offsets, so they convert through Celsius instead of a factor.
+const TEMPERATURES: Record<string, { toCelsius: (value: number) => number; fromCelsius: (value: number) => number }> = {
+  c: { toCelsius: v => v, fromCelsius: v => v },
+  f: { toCelsius: v => (v - 32) * 5 / 9, fromCelsius: v => v * 9 / 5 + 32 },
+  k: { toCelsius: v => v - 273.15, fromCelsius: v => v + 273.15 },
+};
+
+const TEMPERATURE_NAMES: Record<string, string> = {
+  c: 'c', '°c': 'c', celsius: 'c',
+  f: 'f', '°f': 'f', fahrenheit: 'f',
+  k: 'k', kelvin: 'k',
+};
+
+const normalize = (unit: string) => unit.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const findUnit = (unit: string) => {
+  const name = normalize(unit);
+  const found = UNITS.find(definition => definition.names.includes(name));
+  if (!found) throw new Error(`Unknown unit "${unit}".`);
+  return found;
+};
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const fromTemperature = TEMPERATURE_NAMES[normalize(from)];
+  const toTemperature = TEMPERATURE_NAMES[normalize(to)];
+  if (fromTemperature || toTemperature) {
+    if (!fromTemperature || !toTemperature) throw new Error(`Cannot convert ${from} to ${to}.`);
+    return TEMPERATURES[toTemperature].fromCelsius(TEMPERATURES[fromTemperature].toCelsius(value));
+  }
+
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to}).`);
+  }
+  return value * source.factor / target.factor;
+};
+
+export const convertUnitsTool = defineTool({
+  name: 'convert_units',
+  description:
+    'Converts a value between units of length, mass, volume (US cups, pints, quarts and gallons unless "imperial" ' +
+    'is given), area, speed, time, data size, energy, pressure or temperature.',
+  parameters: z.object({
+    value: z.number(),
+    from: z.string().describe('Unit symbol or name, such as "mi", "lb", "°F" or "fl oz"'),
+    to: z.string().describe('Unit symbol or name in the same dimension'),
+  }),
+  handler: async ({ value, from, to }) => ({
+    value,
+    from,
+    to,
+    result: Number(convertUnits(value, from, to).toPrecision(12)),
+  }),
+});
@@ -0,0 +1,166 @@
+import type { AIProvider, TokenUsage } from '@/lib/providers';
+import { estimateTokens } from '@/lib/tokens';
+import { loadJson, loadJsonList, saveJson } from '@/lib/storage';
+
+export interface MessageUsage {
+  provider: AIProvider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  cost: number;
+  // True when the provider did not report counts and they were estimated locally
+  estimated?: boolean;
+}
+
+export interface UsageRecord extends MessageUsage {
+  id: string;
+  timestamp: string;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const USAGE_LOG_KEY = 'usage-log';
+const PRICES_KEY = 'model-prices';
+
+// Oldest records are dropped beyond this so localStorage stays small
+const MAX_USAGE_RECORDS = 5000;
+
+// Matched by longest model-name prefix, like the context window table
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+// Once edited, the saved table replaces the defaults entirely so removed rows stay removed.
+export const loadPrices = (): Record<string, ModelPrice> => loadJson(PRICES_KEY, DEFAULT_PRICES);
+
+export const savePrices = (prices: Record<string, ModelPrice>) => saveJson(PRICES_KEY, prices);
+
+export const findPrice = (prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined => {
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+};
+
+// Local and unknown models cost nothing as far as the tracker is concerned.
+export const estimateCost = (model: string, promptTokens: number, completionTokens: number, prices = loadPrices()) => {
+  const price = findPrice(prices, model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+interface UsageContext {
+  provider: AIProvider;
+  model: string;
+  latencyMs: number;
+  // Local estimates used for whichever counts the provider left out
+  promptTokens: number;
+  completionText: string;
+}
+
+export const toMessageUsage = (reported: TokenUsage | undefined, context: UsageContext): MessageUsage => {
+  const { provider, model, latencyMs } = context;
+  const promptTokens = reported?.promptTokens ?? context.promptTokens;
+  const completionTokens = reported?.completionTokens ?? estimateTokens(context.completionText, provider);
+  return {
+    provider,
+    model,
+    promptTokens,
+    completionTokens,
+    latencyMs,
+    cost: estimateCost(model, promptTokens, completionTokens),
+    estimated: reported?.promptTokens === undefined || reported?.completionTokens === undefined || undefined,
+  };
+};
+
+export const loadUsageLog = (): UsageRecord[] => loadJsonList(USAGE_LOG_KEY);
+
+export const recordUsage = (usage: MessageUsage): UsageRecord => {
+  const record: UsageRecord = {
+    ...usage,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+  };
+  saveJson(USAGE_LOG_KEY, [...loadUsageLog(), record].slice(-MAX_USAGE_RECORDS));
+  return record;
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+};
+
+export const formatCost = (cost: number) =>
+  cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+export type DailyUsage = { date: string } & Partial<Record<`${AIProvider}Tokens` | `${AIProvider}Cost`, number>>;
+
+export interface ModelUsageSummary {
+  provider: AIProvider;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+// One row per local calendar day, oldest first, with token and cost totals keyed by provider.
+export const groupUsageByDay = (records: UsageRecord[]): DailyUsage[] => {
+  const days = new Map<string, DailyUsage>();
+  for (const record of records) {
+    const date = new Date(record.timestamp).toLocaleDateString('en-CA');
+    const day = days.get(date) ?? { date };
+    const tokens = `${record.provider}Tokens` as const;
+    const cost = `${record.provider}Cost` as const;
+    day[tokens] = (day[tokens] ?? 0) + record.promptTokens + record.completionTokens;
+    day[cost] = (day[cost] ?? 0) + record.cost;
+    days.set(date, day);
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const groupUsageByModel = (records: UsageRecord[]): ModelUsageSummary[] => {
+  const models = new Map<string, ModelUsageSummary & { totalLatencyMs: number }>();
+  for (const record of records) {
+    const key = `${record.provider}:${record.model}`;
+    const summary = models.get(key) ?? {
+      provider: record.provider,
+      model: record.model,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      averageLatencyMs: 0,
+      totalLatencyMs: 0,
+    };
+    summary.requests += 1;
+    summary.promptTokens += record.promptTokens;
+    summary.completionTokens += record.completionTokens;
+    summary.cost += record.cost;
+    summary.totalLatencyMs += record.latencyMs;
+    summary.averageLatencyMs = summary.totalLatencyMs / summary.requests;
+    models.set(key, summary);
+  }
+  return [...models.values()]
+    .map(({ totalLatencyMs: _total, ...summary }) => summary)
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+};
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Outlet } from 'react-router-dom';
 import { ChatInterface } from '@/components/ChatInterface';
 import { TransparencyControls } from '@/components/TransparencyControls';
 import { ResizeHandle } from '@/components/ResizeHandle';
@@ -39,6 +40,9 @@ const Index = () => {
           This interface is optimized for screen sharing overlays. Wrap in Electron with transparency and "skip taskbar" options for the perfect invisible assistant.
         </p>
       </div>
+
+      {/* Nested pages such as usage cover the chat without unmounting it */}
+      <Outlet />
     </div>
   );
 };
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BudgetSettingsCard } from '@/components/BudgetSettingsCard';
+import { listProviders } from '@/lib/providers';
+import {
+  clearUsageLog,
+  formatCost,
+  groupUsageByDay,
+  groupUsageByModel,
+  loadPrices,
+  loadUsageLog,
+  savePrices,
+  type ModelPrice,
+} from '@/lib/usage';
+
+const PROVIDER_COLORS = ['hsl(142 76% 36%)', 'hsl(217 91% 60%)', 'hsl(25 95% 53%)', 'hsl(280 65% 60%)', 'hsl(0 0% 60%)', 'hsl(190 80% 45%)'];
+
+const buildChartConfig = (suffix: 'Tokens' | 'Cost'): ChartConfig =>
+  Object.fromEntries(
+    listProviders().map((adapter, index) => [
+      `${adapter.id}${suffix}`,
+      { label: adapter.label, color: PROVIDER_COLORS[index % PROVIDER_COLORS.length] },
+    ])
+  );
+
+const tokensConfig = buildChartConfig('Tokens');
+const costConfig = buildChartConfig('Cost');
+
+interface UsageChartProps {
+  title: string;
+  description: string;
+  config: ChartConfig;
+  data: ReturnType<typeof groupUsageByDay>;
+  formatValue: (value: number) => string;
+}
+
+const UsageChart: React.FC<UsageChartProps> = ({ title, description, config, data, formatValue }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-base">{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <ChartContainer config={config} className="h-[240px] w-full">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} tickFormatter={formatValue} width={56} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {Object.keys(config).map((key) => (
+            <Bar key={key} dataKey={key} stackId="providers" fill={`var(--color-${key})`} />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </CardContent>
+  </Card>
+);
+
+const Usage = () => {
+  const [records, setRecords] = useState(loadUsageLog);
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(loadPrices);
+  const [newPrefix, setNewPrefix] = useState('');
+
+  const daily = useMemo(() => groupUsageByDay(records), [records]);
+  const byModel = useMemo(() => groupUsageByModel(records), [records]);
+  const totalTokens = byModel.reduce((sum, row) => sum + row.promptTokens + row.completionTokens, 0);
+  const totalCost = byModel.reduce((sum, row) => sum + row.cost, 0);
+
+  const updatePrice = (prefix: string, patch: Partial<ModelPrice>) => {
+    const next = { ...prices, [prefix]: { ...prices[prefix], ...patch } };
+    setPrices(next);
+    savePrices(next);
+  };
+
+  const removePrice = (prefix: string) => {
+    const next = { ...prices };
+    delete next[prefix];
+    setPrices(next);
+    savePrices(next);
+  };
+
+  const addPrice = () => {
+    const prefix = newPrefix.trim();
+    if (!prefix || prices[prefix]) return;
+    updatePrice(prefix, { input: 0, output: 0 });
+    setNewPrefix('');
+  };
+
+  const handleClear = () => {
+    clearUsageLog();
+    setRecords([]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 overflow-y-auto bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="ghost" size="sm">
+              <Link to="/" aria-label="Back to chat">
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">Usage</h1>
+              <p className="text-sm text-muted-foreground">
+                {records.length.toLocaleString()} requests · {totalTokens.toLocaleString()} tokens · {formatCost(totalCost)}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={records.length === 0}>
+            Clear history
+          </Button>
+        </div>
+
+        {records.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground">
+              No usage recorded yet. Token counts, latency and cost are logged for every reply.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-6 md:grid-cols-2">
+              <UsageChart
+                title="Tokens per day"
+                description="Prompt and completion tokens by provider"
+                config={tokensConfig}
+                data={daily}
+                formatValue={(value) => value.toLocaleString()}
+              />
+              <UsageChart
+                title="Spend per day"
+                description="Estimated cost in USD by provider"
+                config={costConfig}
+                data={daily}
+                formatValue={formatCost}
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Prompt</TableHead>
+                      <TableHead className="text-right">Completion</TableHead>
+                      <TableHead className="text-right">Avg latency</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byModel.map((row) => (
+                      <TableRow key={`${row.provider}:${row.model}`}>
+                        <TableCell>
+                          <div className="font-medium">{row.model}</div>
+                          <div className="text-xs text-muted-foreground">{row.provider}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+                        <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <BudgetSettingsCard records={records} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Prices</CardTitle>
+            <CardDescription>
+              USD per million tokens, matched by model name prefix. Changes apply to new replies only.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model prefix</TableHead>
+                  <TableHead>Input</TableHead>
+                  <TableHead>Output</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(prices).map(([prefix, price]) => (
+                  <TableRow key={prefix}>
+                    <TableCell className="font-medium">{prefix}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price.input}
+                        onChange={(e) => updatePrice(prefix, { input: Number(e.target.value) || 0 })}
+                        className="h-8 w-24 bg-input border-white/20"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price.output}
+                        onChange={(e) => updatePrice(prefix, { output: Number(e.target.value) || 0 })}
+                        className="h-8 w-24 bg-input border-white/20"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => removePrice(prefix)} aria-label={`Remove ${prefix}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex gap-2">
+              <Input
+                value={newPrefix}
+                onChange={(e) => setNewPrefix(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addPrice()}
+                placeholder="Model prefix, e.g. llama3"
+                className="bg-input border-white/20"
+              />
+              <Button variant="outline" onClick={addPrice} disabled={!newPrefix.trim()}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_FAKE_SCREEN_CAPTURE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}